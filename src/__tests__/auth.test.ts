@@ -0,0 +1,26 @@
+import { MockTransport } from "../testing";
+
+describe("auth payloads", () => {
+  it("sends password resets with the configured field names", async () => {
+    const fake = new MockTransport();
+    fake.onPost("/reset-password").reply(200);
+    const laravel = fake.client({
+      prefix: "",
+      fields: { email: "mail", password: "secret" },
+    });
+
+    await laravel.resetPassword({
+      token: "reset-token",
+      email: "user@example.com",
+      password: "newpassword",
+      password_confirmation: "newpassword",
+    });
+
+    expect(fake.history[0].body).toEqual({
+      token: "reset-token",
+      mail: "user@example.com",
+      secret: "newpassword",
+      secret_confirmation: "newpassword",
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { MockTransport } from "../testing";
+
+const session = "XSRF-TOKEN=expired; laravel_session=abc";
+
+describe("CSRF token refresh", () => {
+  let fake: MockTransport;
+
+  beforeEach(() => {
+    fake = new MockTransport();
+    fake
+      .onGet("/sanctum/csrf-cookie")
+      .reply(204, undefined, { "Set-Cookie": "XSRF-TOKEN=fresh; path=/" });
+    fake.onPost("/api/posts").reply(201, { id: 1 });
+  });
+
+  it("replays the request once with a fresh token after a 419", async () => {
+    fake
+      .onPost("/api/posts")
+      .replyOnce(419, { message: "CSRF token mismatch." });
+    const laravel = fake.client({ mode: "spa" }).withCookies(session);
+
+    const response = await laravel.post("/api/posts", { title: "Hello" });
+
+    expect(response.status).toBe(201);
+    const [failed, refresh, replay] = fake.history;
+    expect(failed.headers.get("X-XSRF-TOKEN")).toBe("expired");
+    expect(refresh.path).toBe("/sanctum/csrf-cookie");
+    expect(replay.headers.get("X-XSRF-TOKEN")).toBe("fresh");
+    expect(replay.headers.get("cookie")).toContain("XSRF-TOKEN=fresh");
+    expect(replay.headers.get("cookie")).toContain("laravel_session=abc");
+    expect(replay.body).toEqual({ title: "Hello" });
+  });
+
+  it("shares one csrf-cookie call between concurrent 419s", async () => {
+    fake
+      .onPost("/api/posts")
+      .reply((request) =>
+        request.headers.get("X-XSRF-TOKEN") === "fresh"
+          ? [201, { id: 1 }]
+          : [419, { message: "CSRF token mismatch." }],
+      );
+    const laravel = fake.client({ mode: "spa" }).withCookies(session);
+
+    const responses = await Promise.all([
+      laravel.post("/api/posts", {}),
+      laravel.post("/api/posts", {}),
+      laravel.post("/api/posts", {}),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([
+      201, 201, 201,
+    ]);
+    expect(fake.sent("/sanctum/csrf-cookie")).toHaveLength(1);
+  });
+
+  it("keeps the 419 when no fresh token comes back", async () => {
+    fake.onGet("/sanctum/csrf-cookie").reply(204);
+    fake.onPost("/api/posts").reply(419, { message: "CSRF token mismatch." });
+    const laravel = fake.client({ mode: "spa" }).withCookies(session);
+
+    const response = await laravel.post("/api/posts", {});
+
+    expect(response.status).toBe(419);
+    expect(fake.sent("/api/posts")).toHaveLength(1);
+  });
+
+  it("doesn't refresh when disabled", async () => {
+    fake
+      .onPost("/api/posts")
+      .replyOnce(419, { message: "CSRF token mismatch." });
+    const laravel = fake
+      .client({ mode: "spa", csrfRefresh: false })
+      .withCookies(session);
+
+    expect((await laravel.post("/api/posts", {})).status).toBe(419);
+    fake.assertNotSent("/sanctum/csrf-cookie");
+  });
+});
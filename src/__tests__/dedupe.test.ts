@@ -0,0 +1,93 @@
+import { MockTransport } from "../testing";
+
+// Helper function to let every request that is in flight reach the transport
+const delayed =
+  (data: unknown, headers: Record<string, string> = {}) =>
+  () =>
+    new Promise<[number, unknown, Record<string, string>]>((resolve) =>
+      setTimeout(() => resolve([200, data, headers]), 10),
+    );
+
+describe("request deduplication", () => {
+  it("is off by default", async () => {
+    const fake = new MockTransport();
+    fake.onGet("/api/users").reply(delayed([]));
+    const laravel = fake.client();
+
+    await Promise.all([laravel.get("/api/users"), laravel.get("/api/users")]);
+
+    fake.assertSentCount(2);
+  });
+
+  it("shares identical GET requests that are in flight", async () => {
+    const fake = new MockTransport();
+    fake.onGet("/api/users").reply(delayed([{ id: 1 }]));
+    const laravel = fake.client({ dedupe: true });
+
+    const [first, second] = await Promise.all([
+      laravel.get("/api/users"),
+      laravel.get("/api/users"),
+    ]);
+
+    fake.assertSentCount(1);
+    expect(first.data).toEqual([{ id: 1 }]);
+    expect(second).not.toBe(first);
+  });
+
+  it("keeps requests with different headers apart", async () => {
+    const fake = new MockTransport();
+    fake
+      .onGet("/api/orders")
+      .reply((request) =>
+        delayed({ tenant: request.headers.get("X-Tenant") })(),
+      );
+    const laravel = fake.client({ dedupe: true });
+
+    const [acme, beta] = await Promise.all([
+      laravel.get("/api/orders", { headers: { "X-Tenant": "acme" } }),
+      laravel.get("/api/orders", { headers: { "X-Tenant": "beta" } }),
+    ]);
+
+    expect(acme.data).toEqual({ tenant: "acme" });
+    expect(beta.data).toEqual({ tenant: "beta" });
+  });
+
+  it("never shares requests of forks", async () => {
+    const fake = new MockTransport();
+    fake.onGet("/sanctum/csrf-cookie").reply(delayed(null));
+    const laravel = fake.client({ mode: "spa", dedupe: true });
+
+    await Promise.all([laravel.fork().csrf(), laravel.fork().csrf()]);
+
+    fake.assertSentCount(2);
+  });
+});
+
+describe("response cache", () => {
+  it("serves cached responses until a mutation invalidates their tag", async () => {
+    const fake = new MockTransport();
+    fake.onGet("/api/users").reply(200, []).onPost("/api/users").reply(201);
+    const laravel = fake.client({ cache: { ttl: 60000 } });
+
+    await laravel.get("/api/users", { next: { tags: ["users"] } });
+    await laravel.get("/api/users");
+    fake.assertSentCount(1);
+
+    await laravel.post("/api/users", {}, { next: { tags: ["users"] } });
+    await laravel.get("/api/users");
+    fake.assertSentCount(3);
+  });
+
+  it("doesn't cache responses that set cookies", async () => {
+    const fake = new MockTransport();
+    fake
+      .onGet("/api/users")
+      .reply(200, [], { "Set-Cookie": "laravel_session=abc" });
+    const laravel = fake.client({ cache: { ttl: 60000 } });
+
+    await laravel.get("/api/users");
+    await laravel.get("/api/users");
+
+    fake.assertSentCount(2);
+  });
+});
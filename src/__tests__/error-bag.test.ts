@@ -0,0 +1,34 @@
+import { ErrorBag } from "../index";
+
+describe("ErrorBag", () => {
+  it("renders untranslated rule keys", () => {
+    const bag = new ErrorBag(
+      { email: ["validation.required"], "items.0.name": ["validation.string"] },
+      { locale: "en", attributes: { email: "e-mail address" } },
+    );
+
+    expect(bag.first("email")).toBe("The e-mail address field is required.");
+    expect(bag.first("items.0.name")).toBe(
+      "The items.0.name field must be a string.",
+    );
+  });
+
+  it("leaves custom messages that look like rule names alone", () => {
+    const bag = new ErrorBag(
+      { password: ["confirmed"], email: ["email"] },
+      { locale: "en" },
+    );
+
+    expect(bag.first("password")).toBe("confirmed");
+    expect(bag.first("email")).toBe("email");
+  });
+
+  it("keeps keys whose parameters are unknown", () => {
+    const bag = new ErrorBag(
+      { password: ["validation.min.string"] },
+      { locale: "en" },
+    );
+
+    expect(bag.first("password")).toBe("validation.min.string");
+  });
+});
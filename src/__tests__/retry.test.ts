@@ -0,0 +1,72 @@
+import { MockTransport } from "../testing";
+
+const retry = { attempts: 3, baseDelay: 1, jitter: false };
+
+describe("retries", () => {
+  let fake: MockTransport;
+
+  beforeEach(() => {
+    fake = new MockTransport();
+  });
+
+  it("retries idempotent requests on server errors", async () => {
+    fake.onGet("/api/users").reply(200, []);
+    fake.onGet("/api/users").replyOnce(503);
+    const laravel = fake.client({ retry });
+
+    const response = await laravel.get("/api/users");
+
+    expect(response.status).toBe(200);
+    fake.assertSentCount(2);
+  });
+
+  it("retries idempotent requests on network errors", async () => {
+    fake.onGet("/api/users").reply(200, []);
+    fake.onGet("/api/users").replyOnce(() => {
+      throw new TypeError("Failed to fetch");
+    });
+    const laravel = fake.client({ retry });
+
+    expect((await laravel.get("/api/users")).status).toBe(200);
+    fake.assertSentCount(2);
+  });
+
+  it("gives up after the last attempt", async () => {
+    fake.onGet("/api/users").reply(503);
+    const laravel = fake.client({ retry });
+
+    expect((await laravel.get("/api/users")).status).toBe(503);
+    fake.assertSentCount(3);
+  });
+
+  it("doesn't replay a throttled POST", async () => {
+    fake.onPost("/api/orders").reply(429, {}, { "Retry-After": "0" });
+    const laravel = fake.client({ retry });
+
+    expect((await laravel.post("/api/orders", {})).status).toBe(429);
+    fake.assertSentCount(1);
+  });
+
+  it("replays a throttled POST carrying an idempotency key", async () => {
+    fake.onPost("/api/orders").reply(201);
+    fake.onPost("/api/orders").replyOnce(429, {}, { "Retry-After": "0" });
+    const laravel = fake.client({ retry });
+
+    const response = await laravel.post(
+      "/api/orders",
+      {},
+      { headers: { "Idempotency-Key": "order-1" } },
+    );
+
+    expect(response.status).toBe(201);
+    fake.assertSentCount(2);
+  });
+
+  it("gives up when Retry-After exceeds maxRetryAfter", async () => {
+    fake.onGet("/api/users").reply(429, {}, { "Retry-After": "120" });
+    const laravel = fake.client({ retry: { ...retry, maxRetryAfter: 1000 } });
+
+    expect((await laravel.get("/api/users")).status).toBe(429);
+    fake.assertSentCount(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { NetworkError, TimeoutError, ValidationError } from "../index";
+import { MockTransport, paginator, validationErrors } from "../testing";
+
+describe("MockTransport", () => {
+  let fake: MockTransport;
+
+  beforeEach(() => {
+    fake = new MockTransport();
+  });
+
+  it("replies to matching routes", async () => {
+    fake.onGet("/api/users").reply(200, [{ id: 1 }]);
+
+    const response = await fake.client().get("/api/users");
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual([{ id: 1 }]);
+  });
+
+  it("matches wildcards and regular expressions", async () => {
+    fake
+      .onGet("/api/users/*")
+      .reply(200, { wildcard: true })
+      .onGet(/\/api\/posts\/\d+$/)
+      .reply(200, { regex: true });
+    const laravel = fake.client();
+
+    expect((await laravel.get("/api/users/5")).data).toEqual({
+      wildcard: true,
+    });
+    expect((await laravel.get("/api/posts/7")).data).toEqual({ regex: true });
+  });
+
+  it("uses one-time replies before the persistent one", async () => {
+    fake.onGet("/api/users").reply(200, "persistent");
+    fake.onGet("/api/users").replyOnce(500, "once");
+    const laravel = fake.client();
+
+    expect((await laravel.get("/api/users")).status).toBe(500);
+    expect((await laravel.get("/api/users")).data).toBe("persistent");
+  });
+
+  it("fails requests without a matching route", async () => {
+    const response = await fake.client().get("/api/unknown");
+
+    expect(response.error).toBeInstanceOf(NetworkError);
+  });
+
+  it("replies with validation errors", async () => {
+    fake.onPost("/api/users").reply422({
+      email: ["The email field is required."],
+      name: ["The name field is required."],
+    });
+
+    const response = await fake.client().post("/api/users", {});
+
+    expect(response.error).toBeInstanceOf(ValidationError);
+    expect(response.data.message).toBe(
+      "The email field is required. (and 1 more error)",
+    );
+  });
+
+  it("pages through paginated replies", async () => {
+    const items = Array.from({ length: 25 }, (_, index) => index);
+    fake.onGet("/api/posts").replyPaginated(items, { perPage: 10 });
+
+    const seen: number[] = [];
+    for await (const item of fake.client().each<number>("/api/posts")) {
+      seen.push(item);
+    }
+
+    expect(seen).toEqual(items);
+    fake.assertSentCount(3);
+  });
+
+  it("simulates network errors and timeouts", async () => {
+    fake.onGet("/api/down").networkError().onGet("/api/slow").timeout();
+    const laravel = fake.client();
+
+    expect((await laravel.get("/api/down")).error).toBeInstanceOf(NetworkError);
+    expect(
+      (await laravel.get("/api/slow", { timeout: 20 })).error,
+    ).toBeInstanceOf(TimeoutError);
+  });
+
+  it("fails the request when a reply can't be turned into a response", async () => {
+    fake.onGet("/api/broken").reply(1000, {});
+
+    const response = await fake.client().get("/api/broken", { timeout: 1000 });
+
+    expect(response.error).toBeInstanceOf(NetworkError);
+    expect(response.error).not.toBeInstanceOf(TimeoutError);
+  });
+
+  it("records requests for assertions", async () => {
+    fake.onAny().reply(204);
+
+    expect(() => fake.assertNothingSent()).not.toThrow();
+
+    await fake.client().post("/api/users", { email: "jane@example.com" });
+
+    fake.assertSent("/api/users");
+    fake.assertSent(
+      (request) =>
+        request.method === "POST" && request.body.email === "jane@example.com",
+    );
+    fake.assertNotSent("/api/posts");
+    fake.assertSentCount(1);
+    expect(() => fake.assertNothingSent()).toThrow();
+    expect(() => fake.assertSent("/api/posts")).toThrow();
+  });
+});
+
+describe("fixtures", () => {
+  it("builds a length aware paginator", () => {
+    const page = paginator([1, 2, 3, 4, 5], { page: 2, perPage: 2 });
+
+    expect(page.data).toEqual([3, 4]);
+    expect(page.last_page).toBe(3);
+    expect(page.from).toBe(3);
+    expect(page.to).toBe(4);
+    expect(page.next_page_url).toBe("http://localhost?page=3");
+  });
+
+  it("builds Laravel's validation message", () => {
+    expect(validationErrors({ email: ["Required."] }).message).toBe(
+      "Required.",
+    );
+  });
+});
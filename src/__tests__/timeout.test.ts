@@ -0,0 +1,65 @@
+import Laravel, { AbortError, TimeoutError } from "../index";
+
+// Sends the headers right away and the body only when `finish` is called,
+// tearing the body down on abort like fetch does
+const slowBody = () => {
+  let finish = () => {};
+  const fetch: typeof globalThis.fetch = async (_input, init = {}) => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"data":'));
+        finish = () => {
+          controller.enqueue(new TextEncoder().encode("[]}"));
+          controller.close();
+        };
+        init.signal?.addEventListener("abort", () =>
+          controller.error(init.signal?.reason),
+        );
+      },
+    });
+
+    return new Response(body, {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+
+  return {
+    finish: () => finish(),
+    laravel: new Laravel({ baseUrl: "http://localhost", mode: "token", fetch }),
+  };
+};
+
+describe("timeouts and aborts", () => {
+  it("reads a body that arrives in parts", async () => {
+    const { laravel, finish } = slowBody();
+    const pending = laravel.get("/api/users");
+
+    setTimeout(finish, 10);
+
+    const response = await pending;
+    expect(response.success).toBe(true);
+    expect(response.data).toEqual({ data: [] });
+  });
+
+  it("times out while reading the body", async () => {
+    const { laravel } = slowBody();
+
+    const response = await laravel.get("/api/users", { timeout: 20 });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toBeInstanceOf(TimeoutError);
+  });
+
+  it("aborts while reading the body", async () => {
+    const { laravel } = slowBody();
+    const controller = new AbortController();
+    const pending = laravel.get("/api/users", { signal: controller.signal });
+
+    setTimeout(() => controller.abort(), 10);
+
+    const response = await pending;
+    expect(response.success).toBe(false);
+    expect(response.error).toBeInstanceOf(AbortError);
+  });
+});
@@ -0,0 +1,92 @@
+import { MockTransport } from "../testing";
+
+const users: Record<string, string> = {
+  "Bearer alice-new": "alice",
+  "Bearer bob-new": "bob",
+};
+
+describe("token refresh", () => {
+  let fake: MockTransport;
+  let refreshes: string[];
+
+  beforeEach(() => {
+    fake = new MockTransport();
+    refreshes = [];
+    fake.onGet("/api/user").reply((request) => {
+      const user = users[request.headers.get("Authorization") ?? ""];
+      return user
+        ? [200, { name: user }]
+        : [401, { message: "Unauthenticated." }];
+    });
+    // Trades an expired token for a new one of the same user
+    fake.onPost("/api/token/refresh").reply(
+      (request) =>
+        new Promise((resolve) =>
+          setTimeout(() => {
+            const expired = request.headers.get("Authorization") ?? "";
+            const user = expired.replace(/^Bearer (\w+)-old$/, "$1");
+            refreshes.push(user);
+            resolve([200, { token: `${user}-new` }]);
+          }, 10),
+        ),
+    );
+  });
+
+  const client = () =>
+    fake.client({
+      refreshToken: async (client) =>
+        (await client.post("/api/token/refresh")).data.token,
+    });
+
+  it("refreshes once for concurrent 401s with the same token", async () => {
+    const laravel = client();
+
+    const responses = await Promise.all(
+      [1, 2, 3].map(() => laravel.withToken("alice-old").get("/api/user")),
+    );
+
+    expect(refreshes).toEqual(["alice"]);
+    expect(responses.map((response) => response.data)).toEqual([
+      { name: "alice" },
+      { name: "alice" },
+      { name: "alice" },
+    ]);
+  });
+
+  it("refreshes every token on its own", async () => {
+    const laravel = client();
+
+    const [alice, bob] = await Promise.all([
+      laravel.withToken("alice-old").get("/api/user"),
+      laravel.withToken("bob-old").get("/api/user"),
+    ]);
+
+    expect(refreshes.sort()).toEqual(["alice", "bob"]);
+    expect(alice.data).toEqual({ name: "alice" });
+    expect(bob.data).toEqual({ name: "bob" });
+  });
+
+  it("holds requests sent with the token being refreshed", async () => {
+    const alice = client().withToken("alice-old");
+
+    const first = alice.get("/api/user");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = alice.get("/api/user");
+
+    expect((await first).data).toEqual({ name: "alice" });
+    expect((await second).data).toEqual({ name: "alice" });
+    expect(refreshes).toEqual(["alice"]);
+    expect(fake.sent("/api/user")).toHaveLength(3);
+  });
+
+  it("keeps the 401 when the refresh fails", async () => {
+    const laravel = fake
+      .client({ refreshToken: async () => null })
+      .withToken("alice-old");
+
+    const response = await laravel.get("/api/user");
+
+    expect(response.status).toBe(401);
+    expect(fake.sent("/api/user")).toHaveLength(1);
+  });
+});
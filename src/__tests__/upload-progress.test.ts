@@ -0,0 +1,32 @@
+import type { TransferProgress } from "../index";
+import { MockTransport } from "../testing";
+
+describe("upload progress with fetch", () => {
+  let fake: MockTransport;
+  let events: TransferProgress[];
+
+  beforeEach(() => {
+    fake = new MockTransport();
+    fake.onPost("/api/files").reply(201);
+    events = [];
+  });
+
+  it("reports a sized body as complete", async () => {
+    await fake.client().post("/api/files", new Blob(["hello"]), {
+      onUploadProgress: (progress) => events.push(progress),
+    });
+
+    expect(events).toEqual([{ loaded: 5, total: 5, percentage: 100 }]);
+  });
+
+  it("reports an unknown size for FormData", async () => {
+    const form = new FormData();
+    form.append("name", "avatar.png");
+
+    await fake.client().post("/api/files", form, {
+      onUploadProgress: (progress) => events.push(progress),
+    });
+
+    expect(events).toEqual([{ loaded: 0, total: null, percentage: null }]);
+  });
+});
@@ -0,0 +1,26 @@
+import { validationMessages } from "../index";
+import { MockTransport } from "../testing";
+
+describe("validation messages", () => {
+  it("renders messages in the requested locale", () => {
+    expect(validationMessages("en").min.string("password", 8)).toBe(
+      "The password field must be at least 8 characters.",
+    );
+    expect(validationMessages("nl").required("Naam")).toBe(
+      "Naam is verplicht.",
+    );
+  });
+});
+
+describe("Accept-Language", () => {
+  it("is left alone until a locale is configured", async () => {
+    const fake = new MockTransport();
+    fake.onAny().reply(204);
+
+    await fake.client().get("/api/user");
+    await fake.client({ locale: "en" }).get("/api/user");
+
+    expect(fake.history[0].headers.has("Accept-Language")).toBe(false);
+    expect(fake.history[1].headers.get("Accept-Language")).toBe("en");
+  });
+});
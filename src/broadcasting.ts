@@ -0,0 +1,29 @@
+// Shapes of Laravel Echo's `authorizer` option (Pusher and Reverb protocol)
+export interface AuthorizableChannel {
+  name: string;
+}
+
+export interface ChannelAuthorizationData {
+  auth: string;
+  channel_data?: string;
+  shared_secret?: string;
+}
+
+export type ChannelAuthorizationCallback = (
+  error: Error | null,
+  data: ChannelAuthorizationData | null,
+) => void;
+
+export type ChannelAuthorizer = (
+  channel: AuthorizableChannel,
+  options?: unknown,
+) => {
+  authorize: (socketId: string, callback: ChannelAuthorizationCallback) => void;
+};
+
+export interface BroadcastingAuthorizerOptions {
+  // Broadcast::routes() registers /broadcasting/auth, use /api/broadcasting/auth
+  // when the routes are registered with the api middleware
+  endpoint?: string;
+  headers?: HeadersInit;
+}
@@ -0,0 +1,122 @@
+import type { LaravelRequest, LaravelResponse } from "./types";
+
+export interface ResponseCacheOptions {
+  // Milliseconds a response is served from the cache
+  ttl?: number;
+  // Milliseconds an expired response is still served while it is refetched
+  staleWhileRevalidate?: number;
+  // Maximum number of cached responses, the oldest are evicted first
+  maxEntries?: number;
+}
+
+export interface RequestCacheOptions {
+  ttl?: number;
+  staleWhileRevalidate?: number;
+  // Defaults to next.tags
+  tags?: string[];
+}
+
+interface CacheEntry {
+  response: LaravelResponse;
+  freshUntil: number;
+  staleUntil: number;
+  tags: string[];
+}
+
+// Key for GET requests that may share a response: the URL plus every header
+// it was sent with, so users and tenants never see each other's data
+export const cacheKey = (request: LaravelRequest): string => {
+  const headers: [string, string][] = [];
+
+  request.init.headers.forEach((value, key) => {
+    if (key === "cookie") {
+      // Laravel rotates the XSRF-TOKEN cookie on every response
+      value = value
+        .split(";")
+        .map((cookie) => cookie.trim())
+        .filter((cookie) => cookie && !cookie.startsWith("XSRF-TOKEN="))
+        .join("; ");
+    }
+
+    if (key !== "x-xsrf-token") {
+      headers.push([key, value]);
+    }
+  });
+
+  return JSON.stringify([
+    request.url,
+    headers.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+    request.responseType,
+    request.timeout,
+  ]);
+};
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(public options: ResponseCacheOptions = {}) {}
+
+  // Helper method to combine the client defaults with per-request options
+  resolve(
+    options: RequestCacheOptions | false = {},
+  ): Required<RequestCacheOptions> {
+    const { ttl, staleWhileRevalidate, tags } = options || {};
+
+    return {
+      ttl: ttl ?? this.options.ttl ?? 0,
+      staleWhileRevalidate:
+        staleWhileRevalidate ?? this.options.staleWhileRevalidate ?? 0,
+      tags: tags || [],
+    };
+  }
+
+  get(key: string): { response: LaravelResponse; stale: boolean } | null {
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (!entry) {
+      return null;
+    }
+
+    if (now >= entry.staleUntil) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return { response: entry.response, stale: now >= entry.freshUntil };
+  }
+
+  set(
+    key: string,
+    response: LaravelResponse,
+    options: Required<RequestCacheOptions>,
+  ) {
+    const now = Date.now();
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      response,
+      freshUntil: now + options.ttl,
+      staleUntil: now + options.ttl + options.staleWhileRevalidate,
+      tags: options.tags,
+    });
+
+    const { maxEntries } = this.options;
+    while (maxEntries && this.entries.size > maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  // Drop every response cached with one of the tags
+  invalidate(tags: string[]) {
+    this.entries.forEach((entry, key) => {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,39 @@
+// Helper function to read name/value pairs from Set-Cookie headers
+export const parseSetCookie = (
+  setCookieHeaders: string[],
+): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+
+  setCookieHeaders.forEach((header) => {
+    const [pair] = header.split(";");
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      cookies[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+    }
+  });
+
+  return cookies;
+};
+
+// Helper function to overwrite cookies in a Cookie header string
+export const mergeCookies = (
+  cookiesString: string | null,
+  cookies: Record<string, string>,
+): string => {
+  const merged: Record<string, string> = {};
+
+  (cookiesString || "")
+    .split(";")
+    .map((row) => row.trim())
+    .filter((row) => row.includes("="))
+    .forEach((row) => {
+      const index = row.indexOf("=");
+      merged[row.slice(0, index)] = row.slice(index + 1);
+    });
+
+  Object.assign(merged, cookies);
+
+  return Object.entries(merged)
+    .map(([name, value]) => `${name}=${value}`)
+    .join("; ");
+};
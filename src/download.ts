@@ -0,0 +1,37 @@
+export interface DownloadedFile {
+  blob: Blob;
+  filename: string | null;
+  mimeType: string | null;
+}
+
+// Reads the filename from a Content-Disposition header, preferring the
+// RFC 5987 filename*= parameter Laravel adds for non-ASCII filenames
+export const parseContentDisposition = (
+  header?: string | null,
+): string | null => {
+  if (!header) {
+    return null;
+  }
+
+  const extended = /filename\*\s*=\s*([^;]+)/i.exec(header);
+  if (extended) {
+    const value = extended[1].trim().replace(/^"(.*)"$/, "$1");
+    const match = /^([\w!#$%&+^`{}~-]+)'[^']*'(.*)$/.exec(value);
+
+    try {
+      return decodeURIComponent(match ? match[2] : value);
+    } catch (error) {
+      // Fall back to the plain filename parameter
+    }
+  }
+
+  const plain = /filename\s*=\s*("(?:\\.|[^"\\])*"|[^;]*)/i.exec(header);
+  if (plain) {
+    const value = plain[1].trim();
+    return value.startsWith('"')
+      ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+      : value || null;
+  }
+
+  return null;
+};
@@ -0,0 +1,204 @@
+import {
+  getDefaultLocale,
+  MessageType,
+  translateValidationMessage,
+  validationAttributes,
+} from "./validation-messages";
+import type { LaravelResponse } from "./types";
+
+export type ValidationErrors = Record<string, string[]>;
+
+export interface ErrorBagOptions {
+  // Display names per field, like the `attributes` array in lang/*/validation.php
+  attributes?: Record<string, string>;
+  // Locale for untranslated messages, defaults to the request's Accept-Language
+  locale?: string;
+}
+
+// Helper function to flatten nested error objects into Laravel's dot notation
+const flatten = (
+  value: unknown,
+  prefix: string,
+  result: ValidationErrors,
+): ValidationErrors => {
+  if (typeof value === "string") {
+    result[prefix] = [...(result[prefix] || []), value];
+  } else if (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "string")
+  ) {
+    result[prefix] = [...(result[prefix] || []), ...value];
+  } else if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, nested]) =>
+      flatten(nested, prefix ? `${prefix}.${key}` : key, result),
+    );
+  }
+
+  return result;
+};
+
+// Helper function to match keys the same way Laravel's Str::is() does
+const matches = (pattern: string, key: string): boolean => {
+  if (!pattern.includes("*")) {
+    return pattern === key;
+  }
+
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${regex}$`).test(key);
+};
+
+export class ErrorBag {
+  private readonly messages: ValidationErrors;
+  private readonly attributes: Record<string, string>;
+  private readonly locale: string;
+
+  constructor(errors: unknown = {}, options: ErrorBagOptions = {}) {
+    this.locale = options.locale || getDefaultLocale();
+    this.attributes = {
+      ...validationAttributes(this.locale),
+      ...options.attributes,
+    };
+    this.messages = {};
+
+    Object.entries(flatten(errors, "", {})).forEach(([field, messages]) => {
+      this.messages[field] = messages.map((message) =>
+        this.translate(field, message),
+      );
+    });
+  }
+
+  static fromResponse(
+    response: LaravelResponse,
+    options?: ErrorBagOptions,
+  ): ErrorBag {
+    const data = response.data;
+    const locale = new Headers(response.config?.headers)
+      .get("Accept-Language")
+      ?.split(",")[0]
+      .trim();
+
+    return new ErrorBag(data && typeof data === "object" ? data.errors : {}, {
+      locale,
+      ...options,
+    });
+  }
+
+  has(field: string): boolean {
+    return this.keys().some((key) => matches(field, key));
+  }
+
+  first(field?: string): string | null {
+    const messages = field === undefined ? this.all() : this.get(field);
+    return messages.length > 0 ? messages[0] : null;
+  }
+
+  get(field: string): string[] {
+    return this.keys()
+      .filter((key) => matches(field, key))
+      .reduce<string[]>(
+        (result, key) => [...result, ...this.messages[key]],
+        [],
+      );
+  }
+
+  all(): string[] {
+    return this.keys().reduce<string[]>(
+      (result, key) => [...result, ...this.messages[key]],
+      [],
+    );
+  }
+
+  keys(): string[] {
+    return Object.keys(this.messages);
+  }
+
+  count(): number {
+    return this.all().length;
+  }
+
+  any(): boolean {
+    return this.keys().length > 0;
+  }
+
+  isEmpty(): boolean {
+    return !this.any();
+  }
+
+  toObject(): ValidationErrors {
+    return { ...this.messages };
+  }
+
+  // First message per field, ready to pass to form libraries. When a prefix
+  // is given only fields below it are returned, relative to that prefix.
+  forForm(prefix?: string): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    this.keys().forEach((key) => {
+      if (prefix && !key.startsWith(`${prefix}.`)) {
+        return;
+      }
+
+      const field = prefix ? key.slice(prefix.length + 1) : key;
+      result[field] = this.messages[key][0];
+    });
+
+    return result;
+  }
+
+  // All messages per field as a nested object, e.g. { items: [{ name: [...] }] }
+  forFormNested(): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    this.keys().forEach((key) => {
+      const segments = key.split(".");
+      let target = result;
+
+      segments.slice(0, -1).forEach((segment, index) => {
+        if (target[segment] === undefined) {
+          target[segment] = /^\d+$/.test(segments[index + 1]) ? [] : {};
+        }
+        target = target[segment];
+      });
+
+      target[segments[segments.length - 1]] = this.messages[key];
+    });
+
+    return result;
+  }
+
+  private attributeName(field: string): string {
+    const attribute = Object.keys(this.attributes).find((pattern) =>
+      matches(pattern, field),
+    );
+
+    return attribute ? this.attributes[attribute] : field.replace(/_/g, " ");
+  }
+
+  // Laravel returns the translation key (e.g. "validation.required") when the
+  // backend has no language file for the rule, so render it client side
+  private translate(field: string, message: string): string {
+    const match =
+      /^validation\.([a-z_]+)(?:\.(array|file|numeric|string))?$/.exec(message);
+    if (!match) {
+      return message;
+    }
+
+    const [, rule, type] = match;
+    const translated = translateValidationMessage(
+      rule,
+      this.attributeName(field),
+      {
+        locale: this.locale,
+        type: type as MessageType | undefined,
+      },
+    );
+
+    // The key doesn't carry the rule's parameters, so keep it rather than
+    // showing e.g. ":min" to the user
+    return translated && !/:[a-z_]+/i.test(translated) ? translated : message;
+  }
+}
@@ -0,0 +1,211 @@
+import { ErrorBag } from "./error-bag";
+import type { LaravelResponse } from "./types";
+
+// Frame of the stack trace Laravel renders when APP_DEBUG is enabled
+export interface LaravelTraceFrame {
+  file?: string;
+  line?: number;
+  function?: string;
+  class?: string;
+  type?: string;
+}
+
+// Base class for every error raised by the client
+export class LaravelError extends Error {
+  readonly response?: LaravelResponse;
+
+  constructor(message: string, response?: LaravelResponse) {
+    super(message);
+    this.name = "LaravelError";
+    this.response = response;
+  }
+}
+
+// The server responded, but with a non-2xx status code
+export class HttpError extends LaravelError {
+  readonly response: LaravelResponse;
+  readonly status: number;
+
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "HttpError";
+    this.response = response;
+    this.status = response.status;
+  }
+}
+
+export class ValidationError extends HttpError {
+  readonly errors: Record<string, string[]>;
+  readonly bag: ErrorBag;
+
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "ValidationError";
+    this.errors = response.data?.errors || {};
+    this.bag = ErrorBag.fromResponse(response);
+  }
+}
+
+export class AuthenticationError extends HttpError {
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "AuthenticationError";
+  }
+}
+
+export class AuthorizationError extends HttpError {
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "AuthorizationError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "NotFoundError";
+  }
+}
+
+export class CsrfMismatchError extends HttpError {
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "CsrfMismatchError";
+  }
+}
+
+export class ThrottledError extends HttpError {
+  // Seconds until the rate limiter allows a new attempt, if Laravel sent it
+  readonly retryAfter: number | null;
+
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "ThrottledError";
+    this.retryAfter = parseRetryAfter(response.headers["retry-after"]);
+  }
+}
+
+export class MaintenanceModeError extends HttpError {
+  readonly retryAfter: number | null;
+
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "MaintenanceModeError";
+    this.retryAfter = parseRetryAfter(response.headers["retry-after"]);
+  }
+}
+
+export class ServerError extends HttpError {
+  // Only present when the Laravel application runs with APP_DEBUG=true
+  readonly exception?: string;
+  readonly file?: string;
+  readonly line?: number;
+  readonly trace?: LaravelTraceFrame[];
+
+  constructor(message: string, response: LaravelResponse) {
+    super(message, response);
+    this.name = "ServerError";
+
+    const data = response.data;
+    if (data && typeof data === "object") {
+      this.exception = data.exception;
+      this.file = data.file;
+      this.line = data.line;
+      this.trace = data.trace;
+    }
+  }
+}
+
+// fetch itself failed (DNS, connection refused, CORS, ...)
+export class NetworkError extends LaravelError {
+  readonly cause: unknown;
+
+  constructor(message: string, cause?: unknown, response?: LaravelResponse) {
+    super(message, response);
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+}
+
+// The request took longer than the configured timeout
+export class TimeoutError extends NetworkError {
+  readonly timeout: number;
+
+  constructor(timeout: number, cause?: unknown, response?: LaravelResponse) {
+    super(`Request timed out after ${timeout}ms`, cause, response);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+// The request was cancelled through the AbortSignal passed by the caller
+export class AbortError extends LaravelError {
+  readonly cause: unknown;
+
+  constructor(message: string, cause?: unknown, response?: LaravelResponse) {
+    super(message, response);
+    this.name = "AbortError";
+    this.cause = cause;
+  }
+}
+
+// Helper function to turn a Retry-After header into seconds
+export const parseRetryAfter = (value?: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return null;
+};
+
+// Helper function to read the message Laravel puts in its JSON error body
+const extractMessage = (response: LaravelResponse): string => {
+  const data = response.data;
+
+  if (data && typeof data === "object" && typeof data.message === "string") {
+    if (data.message !== "") {
+      return data.message;
+    }
+  }
+
+  return (
+    response.statusText || `Request failed with status code ${response.status}`
+  );
+};
+
+export const createHttpError = (response: LaravelResponse): HttpError => {
+  const message = extractMessage(response);
+
+  switch (response.status) {
+    case 401:
+      return new AuthenticationError(message, response);
+    case 403:
+      return new AuthorizationError(message, response);
+    case 404:
+      return new NotFoundError(message, response);
+    case 419:
+      return new CsrfMismatchError(message, response);
+    case 422:
+      return new ValidationError(message, response);
+    case 429:
+      return new ThrottledError(message, response);
+    case 503:
+      return new MaintenanceModeError(message, response);
+  }
+
+  if (response.status >= 500) {
+    return new ServerError(message, response);
+  }
+
+  return new HttpError(message, response);
+};
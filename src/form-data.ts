@@ -0,0 +1,53 @@
+const isFile = (value: unknown): value is Blob =>
+  typeof Blob !== "undefined" && value instanceof Blob;
+
+// Helper function to check whether a payload holds files anywhere
+export const containsFiles = (value: unknown): boolean => {
+  if (isFile(value)) {
+    return true;
+  }
+
+  if (Array.isArray(value)) {
+    return value.some(containsFiles);
+  }
+
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.values(value).some(containsFiles);
+  }
+
+  return false;
+};
+
+const append = (formData: FormData, key: string, value: unknown) => {
+  if (value === undefined) {
+    return;
+  }
+
+  if (value === null) {
+    formData.append(key, "");
+  } else if (isFile(value)) {
+    formData.append(key, value);
+  } else if (typeof value === "boolean") {
+    formData.append(key, value ? "1" : "0");
+  } else if (value instanceof Date) {
+    formData.append(key, value.toISOString());
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => append(formData, `${key}[${index}]`, item));
+  } else if (typeof value === "object") {
+    Object.entries(value as Record<string, unknown>).forEach(
+      ([nestedKey, nested]) => append(formData, `${key}[${nestedKey}]`, nested),
+    );
+  } else {
+    formData.append(key, String(value));
+  }
+};
+
+// Converts an object to FormData with the bracketed keys PHP understands,
+// e.g. { items: [{ photo: file }] } becomes items[0][photo]
+export const toFormData = (
+  data: Record<string, unknown>,
+  formData: FormData = new FormData(),
+): FormData => {
+  Object.entries(data).forEach(([key, value]) => append(formData, key, value));
+  return formData;
+};
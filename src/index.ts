@@ -1,35 +1,170 @@
-export interface LaravelResponse<T = any> {
-  data: T;
-  status: number;
-  statusText: string;
-  headers: Record<string, string>;
-  config: RequestInit;
-  request?: any;
-  success: boolean;
-}
-
-interface NextFetchRequestConfig {
-  revalidate?: number | false;
-  tags?: string[];
-  cache?: "force-cache" | "no-store";
-}
+import type {
+  BroadcastingAuthorizerOptions,
+  ChannelAuthorizationData,
+  ChannelAuthorizer,
+} from "./broadcasting";
+import { mergeCookies, parseSetCookie } from "./cookies";
+import { DownloadedFile, parseContentDisposition } from "./download";
+import { containsFiles, toFormData } from "./form-data";
+import {
+  AbortError,
+  createHttpError,
+  LaravelError,
+  NetworkError,
+  TimeoutError,
+} from "./errors";
+import {
+  canUseXhr,
+  isUploadBody,
+  trackDownload,
+  uploadComplete,
+  xhrFetch,
+} from "./progress";
+import { Page, Paginated, PaginateOptions } from "./pagination";
+import {
+  cacheKey,
+  RequestCacheOptions,
+  ResponseCache,
+  ResponseCacheOptions,
+} from "./cache";
+import { QueryBuilder, QueryBuilderOptions } from "./query-builder";
+import { QueryStringOptions, serializeQuery } from "./query-string";
+import {
+  AuthEndpoints,
+  AuthFields,
+  defaultEndpoints,
+  defaultFields,
+  LaravelOptions,
+  TokenRefresher,
+} from "./options";
+import { ResourceClient, ResourceClientOptions } from "./resource-client";
+import { unwrapResource } from "./resources";
+import {
+  configuredDefaultLocale,
+  getDefaultLocale,
+} from "./validation-messages";
+import { TokenStore } from "./token-store";
+import {
+  parseNdjson,
+  parseServerSentEvents,
+  ServerSentEvent,
+  StreamOptions,
+} from "./streaming";
+import {
+  resolveRetryPolicy,
+  retryDelay,
+  RetryPolicy,
+  shouldRetry,
+  sleep,
+} from "./retry";
+import type {
+  ErrorInterceptor,
+  GetOptions,
+  LaravelRequest,
+  LaravelResponse,
+  NextFetchRequestConfig,
+  RequestInterceptor,
+  RequestOptions,
+  ResponseInterceptor,
+  ResponseType,
+} from "./types";
 
 class Laravel {
   private readonly baseUrl: string;
+  private readonly prefix: string;
+  private readonly endpoints: AuthEndpoints;
+  private readonly fields: AuthFields;
+  private readonly mode: "spa" | "token";
+  private readonly origin: string | null;
+  private readonly credentials: RequestCredentials;
+  private readonly defaultHeaders: Headers;
+  private readonly fetcher: typeof fetch;
+  private readonly customFetch: boolean;
   private cookies: string | null;
   private csrfToken: string | null;
   private bearerToken: string | null;
+  private throwOnError: boolean;
+  private retryPolicy: Required<RetryPolicy> | null = null;
+  private defaultTimeout: number | null = null;
+  private queryStringOptions: QueryStringOptions = {};
+  private unwrap: boolean = false;
+  private csrfRefresh: boolean = true;
+  private dedupe: boolean = true;
+  private locale: string | null = null;
+  private cache: ResponseCache;
+  private inflight = new Map<string, Promise<LaravelResponse>>();
+  // Scoped clients keep the cookies Laravel sets, like a per-user cookie jar
+  private scopedState: boolean = false;
+  private pendingCsrfRefresh: Promise<{
+    token: string | null;
+    cookies: Record<string, string>;
+  }> | null = null;
 
   private tokenResolver?: () => Promise<string | null> | string | null;
+  private tokenStore?: TokenStore;
+  private tokenRefresher?: TokenRefresher;
+  // Pending refreshes by the Authorization header that failed, shared with
+  // derived clients so a token is refreshed only once
+  private tokenRefreshes = new Map<string, Promise<string | null>>();
+
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  private errorInterceptors: ErrorInterceptor[] = [];
 
-  constructor(url: string | undefined) {
-    if (!url) {
+  constructor(
+    urlOrOptions: string | undefined | LaravelOptions,
+    options: LaravelOptions = {},
+  ) {
+    if (urlOrOptions && typeof urlOrOptions === "object") {
+      options = urlOrOptions;
+    } else if (urlOrOptions) {
+      options = { ...options, baseUrl: urlOrOptions };
+    }
+
+    if (!options.baseUrl) {
       throw new Error("URL is required for using this API");
     }
-    this.baseUrl = url;
+    this.baseUrl = options.baseUrl;
+    this.mode = options.mode || "spa";
+    this.origin =
+      options.origin !== undefined ? options.origin : this.defaultOrigin();
+    this.credentials =
+      options.credentials || (this.mode === "spa" ? "include" : "same-origin");
+    this.defaultHeaders = new Headers(options.defaultHeaders || {});
+    this.customFetch = !!options.fetch;
+    this.fetcher = options.fetch || ((input, init) => fetch(input, init));
+    this.prefix = (options.prefix ?? "/api").replace(/\/+$/, "");
+    this.endpoints = { ...defaultEndpoints, ...options.endpoints };
+    this.fields = { ...defaultFields, ...options.fields };
     this.cookies = null;
     this.csrfToken = null;
     this.bearerToken = null;
+    this.throwOnError = options.throwOnError ?? false;
+    this.defaultTimeout = options.timeout ?? null;
+    this.queryStringOptions = options.queryString || {};
+    this.unwrap = options.unwrap ?? false;
+    this.csrfRefresh = options.csrfRefresh ?? this.mode === "spa";
+    this.dedupe = options.dedupe ?? false;
+    this.locale = options.locale ?? null;
+    this.cache = new ResponseCache(options.cache);
+
+    if (options.retry) {
+      this.setRetryPolicy(options.retry);
+    }
+
+    if (options.refreshToken) {
+      this.setTokenRefresher(options.refreshToken);
+    }
+  }
+
+  // Helper method to read NEXT_PUBLIC_DOMAIN without requiring `process`,
+  // which doesn't exist in Vite and Edge runtimes
+  private defaultOrigin(): string | null {
+    try {
+      return process.env.NEXT_PUBLIC_DOMAIN || null;
+    } catch (error) {
+      return null;
+    }
   }
 
   setTokenResolver(resolver: () => Promise<string | null> | string | null) {
@@ -37,6 +172,102 @@ class Laravel {
     return this;
   }
 
+  // Called once when requests fail with a 401; concurrent failures with the
+  // same token wait for the same refresh and are replayed with the new token
+  setTokenRefresher(refresher: TokenRefresher) {
+    this.tokenRefresher = refresher;
+    return this;
+  }
+
+  // Resolve tokens from the store, and keep tokens from issueToken() in it
+  setTokenStore(store: TokenStore) {
+    this.tokenStore = store;
+    return this.setTokenResolver(store.resolver());
+  }
+
+  // Runs before every request, in registration order. Return a modified
+  // request to replace it, or a LaravelResponse to skip the network call.
+  useRequest(interceptor: RequestInterceptor) {
+    this.requestInterceptors.push(interceptor);
+    return this;
+  }
+
+  // Runs after every response, in registration order
+  useResponse(interceptor: ResponseInterceptor) {
+    this.responseInterceptors.push(interceptor);
+    return this;
+  }
+
+  // Runs for failed requests. Return a LaravelResponse to recover.
+  useError(interceptor: ErrorInterceptor) {
+    this.errorInterceptors.push(interceptor);
+    return this;
+  }
+
+  // Retry failed requests with exponential backoff, pass false to disable
+  setRetryPolicy(policy: RetryPolicy | false = {}) {
+    this.retryPolicy = policy === false ? null : resolveRetryPolicy(policy);
+    return this;
+  }
+
+  // Abort requests that take longer than the given amount of milliseconds
+  setDefaultTimeout(timeout: number | null) {
+    this.defaultTimeout = timeout;
+    return this;
+  }
+
+  // Fetch a fresh CSRF cookie and replay requests that failed with a 419
+  setCsrfRefresh(enabled: boolean = true) {
+    this.csrfRefresh = enabled;
+    return this;
+  }
+
+  // Configure how object params passed to get() are serialized
+  setQueryStringOptions(options: QueryStringOptions) {
+    this.queryStringOptions = options;
+    return this;
+  }
+
+  // Throw a LaravelError for failed requests instead of returning them
+  setThrowOnError(enabled: boolean = true) {
+    this.throwOnError = enabled;
+    return this;
+  }
+
+  // Locale for the Accept-Language header and validation messages,
+  // defaults to the one set with setDefaultLocale()
+  setLocale(locale: string | null) {
+    this.locale = locale;
+    return this;
+  }
+
+  getLocale(): string {
+    return this.locale ?? getDefaultLocale();
+  }
+
+  // Share the response of identical GET requests that are in flight
+  setDedupe(enabled: boolean = true) {
+    this.dedupe = enabled;
+    return this;
+  }
+
+  // Defaults for the in-memory response cache, e.g. { ttl: 30000 }
+  setCache(options: ResponseCacheOptions) {
+    this.cache.options = options;
+    return this;
+  }
+
+  // Drop cached responses tagged with any of the tags
+  invalidateTags(...tags: string[]) {
+    this.cache.invalidate(tags);
+    return this;
+  }
+
+  clearCache() {
+    this.cache.clear();
+    return this;
+  }
+
   private extractCsrfToken(cookiesString: string): string | null {
     const match = cookiesString
       .split("; ")
@@ -57,21 +288,23 @@ class Laravel {
   private async createLaravelResponse<T>(
     response: Response,
     config: RequestInit,
+    responseType?: ResponseType,
+    signal?: AbortSignal,
   ): Promise<LaravelResponse<T>> {
     let data: T;
 
     try {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("application/json")) {
-        data = await response.json();
-      } else {
-        data = (await response.text()) as unknown as T;
-      }
+      data = await this.readBody<T>(response, responseType);
     } catch (error) {
+      // A timeout or abort while reading the body fails the request
+      if (signal?.aborted) {
+        throw error;
+      }
+
       data = null as unknown as T;
     }
 
-    return {
+    const laravelResponse: LaravelResponse<T> = {
       data,
       status: response.status,
       statusText: response.statusText,
@@ -80,26 +313,300 @@ class Laravel {
       request: response,
       success: response.status >= 200 && response.status < 300,
     };
+
+    if (!laravelResponse.success) {
+      laravelResponse.error = createHttpError(laravelResponse);
+    }
+
+    return laravelResponse;
+  }
+
+  // Helper method to read the body in the requested format
+  private async readBody<T>(
+    response: Response,
+    responseType?: ResponseType,
+  ): Promise<T> {
+    const contentType = response.headers.get("content-type");
+    const isJson = !!contentType && contentType.includes("application/json");
+
+    // Laravel's error bodies stay JSON, even for binary downloads
+    if (isJson && (!response.ok || !responseType)) {
+      return response.json();
+    }
+
+    switch (responseType) {
+      case "json":
+        return response.json();
+      case "blob":
+        return (await response.blob()) as unknown as T;
+      case "arrayBuffer":
+        return (await response.arrayBuffer()) as unknown as T;
+      case "stream":
+        return response.body as unknown as T;
+      default:
+        return (await response.text()) as unknown as T;
+    }
+  }
+
+  // Helper method to represent a failed fetch as a LaravelResponse
+  private createNetworkErrorResponse<T>(
+    cause: unknown,
+    request: LaravelRequest,
+    reason: "network" | "timeout" | "abort",
+  ): LaravelResponse<T> {
+    const statusText = {
+      network: "Network Error",
+      timeout: "Request Timeout",
+      abort: "Request Aborted",
+    }[reason];
+
+    const response: LaravelResponse<T> = {
+      data: null as unknown as T,
+      status: 0,
+      statusText,
+      headers: {},
+      config: request.init,
+      success: false,
+    };
+
+    const message = cause instanceof Error ? cause.message : String(cause);
+    let error: LaravelError;
+
+    if (reason === "timeout") {
+      error = new TimeoutError(request.timeout || 0, cause, response);
+    } else if (reason === "abort") {
+      error = new AbortError(message, cause, response);
+    } else {
+      error = new NetworkError(message, cause, response);
+    }
+
+    response.error = error;
+
+    return response;
   }
 
   async request<T = any>(
     path: RequestInfo,
     init: RequestInit = {},
+    options: Pick<
+      LaravelRequest,
+      | "timeout"
+      | "onUploadProgress"
+      | "onDownloadProgress"
+      | "responseType"
+      | "unwrap"
+      | "cache"
+    > = {},
   ): Promise<LaravelResponse<T>> {
-    const headers = new Headers(init.headers || {});
+    let request: LaravelRequest = {
+      ...(await this.buildRequest(path, init)),
+      ...options,
+      timeout: options.timeout ?? this.defaultTimeout ?? undefined,
+    };
+    let response: LaravelResponse<T> | undefined;
+
+    // Requests started while their token is refreshed wait for the new one
+    const refresh = this.tokenRefreshes.get(this.authorization(request));
+    if (refresh) {
+      const token = await refresh.catch(() => null);
+      if (token) {
+        this.useRefreshedToken(request, token);
+      }
+    }
+
+    for (const interceptor of this.requestInterceptors) {
+      const result = await interceptor(request);
 
-    headers.set("Accept", "application/json");
-    headers.set("Origin", process.env.NEXT_PUBLIC_DOMAIN || "");
+      // Interceptors may short-circuit by returning a response
+      if (this.isLaravelResponse(result)) {
+        response = result;
+        break;
+      }
+
+      if (result) {
+        request = result;
+      }
+    }
+
+    if (!response) {
+      response = await this.dispatch<T>(request);
+    }
 
-    if (typeof window !== "undefined" && this.cookies == null) {
-      this.cookies = document.cookie;
+    for (const interceptor of this.responseInterceptors) {
+      response = (await interceptor(response, request)) || response;
     }
 
-    if (this.cookies) {
-      headers.set("cookie", this.cookies);
+    if (response.error) {
+      for (const interceptor of this.errorInterceptors) {
+        const result = await interceptor(response.error, request);
+
+        // Error interceptors may recover by returning a response
+        if (result) {
+          response = result;
+          break;
+        }
+      }
+    }
+
+    if (response.error && this.throwOnError) {
+      throw response.error;
+    }
+
+    return response;
+  }
+
+  // Helper method to serve GET requests from the cache or a request that is
+  // already in flight, and send everything else
+  private async dispatch<T>(
+    request: LaravelRequest,
+  ): Promise<LaravelResponse<T>> {
+    const method = (request.init.method || "GET").toUpperCase();
+
+    // Streams can only be read once, and forks keep a cookie jar per user
+    if (
+      method !== "GET" ||
+      request.responseType === "stream" ||
+      this.scopedState
+    ) {
+      return this.finish<T>(await this.exchange<T>(request), request);
+    }
+
+    const key = cacheKey(request);
+    const options =
+      request.cache === false ? null : this.cache.resolve(request.cache);
+    const cacheable =
+      !!options && (options.ttl > 0 || options.staleWhileRevalidate > 0);
+
+    if (cacheable) {
+      const cached = this.cache.get(key);
+
+      if (cached) {
+        // Serve the stale response and refresh it in the background
+        if (cached.stale) {
+          this.share(key, request, options).catch(() => null);
+        }
+
+        return this.finish<T>(cached.response, request, false);
+      }
+    }
+
+    return this.finish<T>(
+      await this.share<T>(key, request, cacheable ? options : null),
+      request,
+    );
+  }
+
+  // Helper method to send a GET request, or join the identical one in flight
+  private share<T>(
+    key: string,
+    request: LaravelRequest,
+    cache: Required<RequestCacheOptions> | null,
+  ): Promise<LaravelResponse<T>> {
+    // Aborting a shared request would fail it for every caller, and only
+    // the first caller would see download progress
+    const shared =
+      this.dedupe && !request.init.signal && !request.onDownloadProgress;
+    const pending = shared && this.inflight.get(key);
+
+    if (pending) {
+      return pending;
+    }
+
+    const promise = this.exchange<T>(request).then((response) => {
+      // Responses starting a session belong to a single client
+      if (cache && response.success && !response.headers["set-cookie"]) {
+        this.cache.set(key, response, cache);
+      }
+
+      return response;
+    });
+
+    if (shared) {
+      const settle = () => this.inflight.delete(key);
+
+      this.inflight.set(key, promise);
+      promise.then(settle, settle);
+    }
+
+    return promise;
+  }
+
+  // Helper method to send the request, replaying it when the CSRF token or
+  // access token has to be refreshed first
+  private async exchange<T>(
+    request: LaravelRequest,
+  ): Promise<LaravelResponse<T>> {
+    let response = await this.send<T>(request);
+
+    if (this.csrfRefresh && this.isCsrfMismatch(response)) {
+      response = await this.replayWithFreshCsrfToken<T>(request, response);
+    }
+
+    if (this.tokenRefresher && response.status === 401) {
+      response = await this.replayWithRefreshedToken<T>(request, response);
+    }
+
+    return response;
+  }
+
+  // Helper method to hand every caller its own copy of a response, so
+  // interceptors can't change a shared or cached one
+  private finish<T>(
+    response: LaravelResponse<T>,
+    request: LaravelRequest,
+    fresh: boolean = true,
+  ): LaravelResponse<T> {
+    // Cookies from a cached response may be outdated
+    if (fresh) {
+      this.storeCookies(response);
+    }
+
+    if (
+      response.success &&
+      (request.unwrap ?? this.unwrap) &&
+      (!request.responseType || request.responseType === "json")
+    ) {
+      return unwrapResource<T>(response);
+    }
+
+    return { ...response };
+  }
+
+  // Helper method to build the outgoing request with auth headers and cookies
+  private async buildRequest(
+    path: RequestInfo,
+    init: RequestInit,
+  ): Promise<LaravelRequest> {
+    const headers = new Headers(this.defaultHeaders);
+    new Headers(init.headers || {}).forEach((value, key) =>
+      headers.set(key, value),
+    );
+
+    if (!headers.has("Accept")) {
+      headers.set("Accept", "application/json");
+    }
+    // Only when configured, browsers send the user's own languages otherwise
+    const locale = this.locale ?? configuredDefaultLocale();
+    if (locale && !headers.has("Accept-Language")) {
+      headers.set("Accept-Language", locale);
+    }
+    if (this.origin) {
+      headers.set("Origin", this.origin);
+    }
+
+    // Token mode never sends cookies, so there is no CSRF token either
+    const cookies =
+      this.mode === "token"
+        ? null
+        : this.cookies == null && typeof window !== "undefined"
+          ? document.cookie
+          : this.cookies;
+
+    if (cookies) {
+      headers.set("cookie", cookies);
 
       // Pass the CSRF token as a header
-      const csrfToken = this.extractCsrfToken(this.cookies);
+      const csrfToken = this.extractCsrfToken(cookies);
       if (csrfToken) {
         headers.set("X-XSRF-TOKEN", csrfToken);
       }
@@ -122,26 +629,267 @@ class Laravel {
       headers.set("Authorization", `Bearer ${this.bearerToken}`);
     }
 
-    const config = {
-      ...init,
-      credentials: "include" as RequestCredentials,
-      headers,
+    return {
+      url: typeof path === "string" ? path : path.url,
+      init: {
+        ...init,
+        credentials: this.credentials,
+        headers,
+      },
     };
+  }
 
-    const response = await fetch(path, config);
+  // Helper method to perform the actual fetch, retrying when the policy allows
+  private async send<T>(request: LaravelRequest): Promise<LaravelResponse<T>> {
+    const policy = this.retryPolicy;
 
-    // Reset cookies for next request
-    this.cookies = null;
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.attempt<T>(request);
+
+      if (
+        response.success ||
+        !policy ||
+        attempt >= policy.attempts ||
+        !shouldRetry(policy, request, response)
+      ) {
+        return response;
+      }
+
+      const delay = retryDelay(policy, attempt, response);
+      if (delay === null) {
+        return response;
+      }
+
+      await sleep(delay, request.init.signal);
+
+      if (request.init.signal?.aborted) {
+        return this.createNetworkErrorResponse<T>(
+          request.init.signal.reason,
+          request,
+          "abort",
+        );
+      }
+    }
+  }
 
-    return this.createLaravelResponse<T>(response, config);
+  // Helper method to perform a single fetch, enforcing the request timeout
+  private async attempt<T>(
+    request: LaravelRequest,
+  ): Promise<LaravelResponse<T>> {
+    const signal = request.init.signal;
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    let timedOut = false;
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener("abort", abort);
+    }
+
+    const timer = request.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeout)
+      : undefined;
+
+    try {
+      const response = await this.transport(request, controller.signal);
+      return await this.createLaravelResponse<T>(
+        response,
+        request.init,
+        request.responseType,
+        controller.signal,
+      );
+    } catch (error) {
+      const reason = timedOut
+        ? "timeout"
+        : signal?.aborted
+          ? "abort"
+          : "network";
+      return this.createNetworkErrorResponse<T>(error, request, reason);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  // Helper method to pick the transport that can report the requested progress
+  private async transport(
+    request: LaravelRequest,
+    signal: AbortSignal,
+  ): Promise<Response> {
+    const init: RequestInit = { ...request.init, signal };
+    const { onUploadProgress, onDownloadProgress } = request;
+    const upload = !!onUploadProgress && isUploadBody(init.body);
+
+    // XHR would bypass a custom fetch implementation
+    if (upload && canUseXhr() && !this.customFetch) {
+      return xhrFetch(request.url, init, onUploadProgress, onDownloadProgress);
+    }
+
+    const response = await this.fetcher(request.url, init);
+
+    if (upload) {
+      onUploadProgress(uploadComplete(init.body));
+    }
+
+    return onDownloadProgress
+      ? trackDownload(response, onDownloadProgress)
+      : response;
+  }
+
+  private isCsrfMismatch(response: LaravelResponse): boolean {
+    const message = response.data?.message;
+
+    return (
+      response.status === 419 ||
+      (typeof message === "string" && /CSRF token mismatch/i.test(message))
+    );
+  }
+
+  // Helper method to refresh the XSRF-TOKEN cookie and replay the request once
+  private async replayWithFreshCsrfToken<T>(
+    request: LaravelRequest,
+    response: LaravelResponse<T>,
+  ): Promise<LaravelResponse<T>> {
+    const cookies = request.init.headers.get("cookie");
+    const refreshed = await this.refreshCsrfToken(cookies);
+
+    if (!refreshed.token) {
+      return response;
+    }
+
+    if (this.scopedState && typeof window === "undefined") {
+      this.cookies = mergeCookies(this.cookies, refreshed.cookies);
+    }
+
+    request.init.headers.set("X-XSRF-TOKEN", refreshed.token);
+    if (cookies) {
+      request.init.headers.set(
+        "cookie",
+        mergeCookies(cookies, refreshed.cookies),
+      );
+    }
+
+    return this.send<T>(request);
+  }
+
+  // Concurrent requests that fail together share a single csrf-cookie call
+  private refreshCsrfToken(cookies: string | null) {
+    if (!this.pendingCsrfRefresh) {
+      this.pendingCsrfRefresh = this.fetchCsrfToken(cookies).finally(() => {
+        this.pendingCsrfRefresh = null;
+      });
+    }
+
+    return this.pendingCsrfRefresh;
+  }
+
+  private async fetchCsrfToken(cookies: string | null) {
+    const request = await this.buildRequest(
+      this.getUri("/sanctum/csrf-cookie"),
+      {
+        method: "GET",
+        headers: cookies ? { cookie: cookies } : {},
+      },
+    );
+    const response = await this.send(request);
+
+    const setCookieHeaders: string[] =
+      response.request?.headers?.getSetCookie?.() || [];
+    const refreshedCookies = parseSetCookie(setCookieHeaders);
+
+    let token: string | null = null;
+    if (refreshedCookies["XSRF-TOKEN"]) {
+      token = decodeURIComponent(refreshedCookies["XSRF-TOKEN"]);
+    } else if (typeof document !== "undefined") {
+      token = this.extractCsrfToken(document.cookie);
+    }
+
+    return { token, cookies: refreshedCookies };
+  }
+
+  // Helper method to refresh the access token and replay the request once.
+  // When the refresh fails the original 401 and its AuthenticationError stand.
+  private async replayWithRefreshedToken<T>(
+    request: LaravelRequest,
+    response: LaravelResponse<T>,
+  ): Promise<LaravelResponse<T>> {
+    let token: string | null = null;
+
+    try {
+      token = await this.refreshAccessToken(this.authorization(request));
+    } catch (error) {
+      console.error("Error refreshing token:", error);
+    }
+
+    if (!token) {
+      return response;
+    }
+
+    this.useRefreshedToken(request, token);
+
+    return this.send<T>(request);
+  }
+
+  // Concurrent requests failing with a 401 for the same token share a single
+  // refresh; requests sent with another token get their own
+  private refreshAccessToken(failed: string): Promise<string | null> {
+    const refreshes = this.tokenRefreshes;
+    let pending = refreshes.get(failed);
+
+    if (!pending) {
+      const refresher = this.tokenRefresher!;
+      // Its requests must not wait for the refresh they are part of
+      const client = this.derive((client) => {
+        client.tokenRefresher = undefined;
+        client.tokenRefreshes = new Map();
+      });
+
+      pending = Promise.resolve()
+        .then(() => refresher(client))
+        .then((token) => {
+          if (token) {
+            this.tokenStore?.set(token);
+          }
+          return token || null;
+        })
+        .finally(() => {
+          refreshes.delete(failed);
+        });
+      refreshes.set(failed, pending);
+    }
+
+    return pending;
+  }
+
+  private authorization(request: LaravelRequest): string {
+    return request.init.headers.get("Authorization") ?? "";
+  }
+
+  // Helper method to switch a request, and this client, to the refreshed token
+  private useRefreshedToken(request: LaravelRequest, token: string) {
+    if (this.bearerToken) {
+      this.bearerToken = token;
+    }
+
+    request.init.headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  private isLaravelResponse(value: unknown): value is LaravelResponse {
+    return (
+      !!value &&
+      typeof value === "object" &&
+      "status" in value &&
+      "success" in value
+    );
   }
 
   async get<T = any>(
     endpoint: string,
-    options?: {
-      params?: Record<string, unknown> | string;
-      next?: NextFetchRequestConfig;
-    },
+    options?: GetOptions,
   ): Promise<LaravelResponse<T>> {
     const url = new URL(endpoint, this.baseUrl);
 
@@ -150,16 +898,17 @@ class Laravel {
         // Raw query string - append directly
         url.search = options.params;
       } else {
-        // Object - convert to search params
-        const params = options.params as Record<string, unknown>;
-        Object.keys(params).forEach((key) =>
-          url.searchParams.append(key, String(params[key])),
+        // Object - convert to search params the way Laravel parses them
+        serializeQuery(options.params, this.queryStringOptions).forEach(
+          ([key, value]) => url.searchParams.append(key, value),
         );
       }
     }
 
     const requestOptions: RequestInit = {
       method: "GET",
+      headers: options?.headers,
+      signal: options?.signal,
     };
 
     // Add Next.js fetch options if provided
@@ -168,67 +917,316 @@ class Laravel {
       requestOptions.next = options.next;
     }
 
-    return await this.request<T>(url.toString(), requestOptions);
+    return await this.request<T>(url.toString(), requestOptions, {
+      timeout: options?.timeout,
+      onDownloadProgress: options?.onDownloadProgress,
+      responseType: options?.responseType,
+      unwrap: options?.unwrap,
+      // Tag cached responses like Next.js does
+      cache:
+        options?.cache === false
+          ? false
+          : { tags: options?.next?.tags, ...options?.cache },
+    });
+  }
+
+  // Fetch a page from a Laravel paginator, throwing when the request fails
+  async paginate<T = any>(
+    endpoint: string,
+    params: Record<string, unknown> = {},
+    options: PaginateOptions = {},
+  ): Promise<Page<T>> {
+    const response = await this.get<Paginated<T>>(endpoint, {
+      ...options,
+      params,
+      unwrap: false,
+    });
+
+    if (response.error) {
+      throw response.error;
+    }
+
+    return new Page<T>(response, params, options, (pageParams) =>
+      this.paginate<T>(endpoint, pageParams, options),
+    );
+  }
+
+  // Iterate over the items of every page, including cursor paginators
+  async *each<T = any>(
+    endpoint: string,
+    params: Record<string, unknown> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<T> {
+    let page: Page<T> | null = await this.paginate<T>(
+      endpoint,
+      params,
+      options,
+    );
+
+    while (page) {
+      yield* page.data;
+      page = await page.next();
+    }
+  }
+
+  // Fluent spatie/laravel-query-builder request, e.g. query<User>("/api/users")
+  query<T = any>(
+    endpoint: string,
+    options?: QueryBuilderOptions,
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, endpoint, options);
+  }
+
+  // Client for Route::apiResource() routes, e.g. resource<User>("users")
+  resource<T = any>(
+    name: string,
+    options: ResourceClientOptions = {},
+  ): ResourceClient<T> {
+    const path = name.startsWith("/")
+      ? name.replace(/\/+$/, "")
+      : `${this.prefix}/${name}`;
+
+    // Shallow nested resources live next to this one
+    const root = path.slice(0, path.lastIndexOf("/"));
+
+    return new ResourceClient<T>(this, path, path, root, options);
+  }
+
+  // Download a file, e.g. from Storage::download(), throwing when it fails
+  async download(
+    endpoint: string,
+    options?: Omit<GetOptions, "responseType">,
+  ): Promise<DownloadedFile> {
+    const response = await this.get<Blob>(endpoint, {
+      ...options,
+      responseType: "blob",
+    });
+
+    if (response.error) {
+      throw response.error;
+    }
+
+    const contentType = response.headers["content-type"];
+
+    return {
+      blob: response.data,
+      filename:
+        parseContentDisposition(response.headers["content-disposition"]) ||
+        decodeURIComponent(
+          new URL(endpoint, this.baseUrl).pathname.split("/").pop() || "",
+        ) ||
+        null,
+      mimeType: contentType ? contentType.split(";")[0].trim() : null,
+    };
+  }
+
+  // Consume a streamed response (response()->stream() / eventStream())
+  stream<T = any>(
+    endpoint: string,
+    options: StreamOptions & { format: "ndjson" },
+  ): AsyncGenerator<T>;
+  stream<T = any>(
+    endpoint: string,
+    options?: StreamOptions,
+  ): AsyncGenerator<ServerSentEvent<T>>;
+  async *stream<T = any>(
+    endpoint: string,
+    options: StreamOptions = {},
+  ): AsyncGenerator<ServerSentEvent<T> | T> {
+    const {
+      method = "GET",
+      body,
+      format = "sse",
+      json = true,
+      reconnect = true,
+      maxReconnects = 5,
+      endMarker = "</stream>",
+      ...requestOptions
+    } = options;
+    const signal = requestOptions.signal;
+    let delay = options.retryDelay ?? 3000;
+    let lastEventId: string | null = null;
+
+    for (let reconnects = 0; ; reconnects++) {
+      const headers = new Headers(requestOptions.headers || {});
+      headers.set(
+        "Accept",
+        format === "sse" ? "text/event-stream" : "application/x-ndjson",
+      );
+      if (lastEventId) {
+        headers.set("Last-Event-ID", lastEventId);
+      }
+
+      const streamOptions = {
+        ...requestOptions,
+        headers,
+        responseType: "stream" as const,
+      };
+      const response =
+        method === "GET"
+          ? await this.get<ReadableStream<Uint8Array>>(endpoint, streamOptions)
+          : await this.sendRequest<ReadableStream<Uint8Array>>(
+              endpoint,
+              method,
+              body,
+              streamOptions,
+            );
+
+      if (response.error) {
+        throw response.error;
+      }
+
+      let failure: unknown = null;
+
+      try {
+        if (format === "ndjson") {
+          yield* parseNdjson<T>(response.data, signal);
+        } else {
+          for await (const event of parseServerSentEvents<T>(
+            response.data,
+            json,
+            signal,
+          )) {
+            if (endMarker !== null && event.data === endMarker) {
+              return;
+            }
+
+            lastEventId = event.id ?? lastEventId;
+            delay = event.retry ?? delay;
+
+            yield event;
+          }
+        }
+      } catch (error) {
+        // Malformed NDJSON is not a connection problem
+        if (error instanceof SyntaxError) {
+          throw error;
+        }
+        failure = error;
+      }
+
+      if (signal?.aborted) {
+        throw new AbortError("The stream was aborted", signal.reason);
+      }
+
+      // The server closed the stream normally
+      if (failure === null) {
+        return;
+      }
+
+      if (format !== "sse" || !reconnect || reconnects >= maxReconnects) {
+        throw new NetworkError(
+          failure instanceof Error ? failure.message : String(failure),
+          failure,
+        );
+      }
+
+      await sleep(delay, signal);
+    }
   }
 
   async post<T = any, D = any>(
     endpoint: string,
     body?: D,
-    nextOptions?: NextFetchRequestConfig,
+    options?: RequestOptions | NextFetchRequestConfig,
   ): Promise<LaravelResponse<T>> {
-    return this.sendRequest<T, D>(endpoint, "POST", body, nextOptions);
+    return this.sendRequest<T, D>(endpoint, "POST", body, options);
   }
 
   async put<T = any, D = any>(
     endpoint: string,
     body?: D,
-    nextOptions?: NextFetchRequestConfig,
+    options?: RequestOptions | NextFetchRequestConfig,
   ): Promise<LaravelResponse<T>> {
-    return this.sendRequest<T, D>(endpoint, "PUT", body, nextOptions);
+    return this.sendRequest<T, D>(endpoint, "PUT", body, options);
   }
 
   async patch<T = any, D = any>(
     endpoint: string,
     body?: D,
-    nextOptions?: NextFetchRequestConfig,
+    options?: RequestOptions | NextFetchRequestConfig,
   ): Promise<LaravelResponse<T>> {
-    return this.sendRequest<T, D>(endpoint, "PATCH", body, nextOptions);
+    return this.sendRequest<T, D>(endpoint, "PATCH", body, options);
   }
 
   async delete<T = any, D = any>(
     endpoint: string,
     body?: D,
-    nextOptions?: NextFetchRequestConfig,
+    options?: RequestOptions | NextFetchRequestConfig,
   ): Promise<LaravelResponse<T>> {
-    return this.sendRequest<T, D>(endpoint, "DELETE", body, nextOptions);
+    return this.sendRequest<T, D>(endpoint, "DELETE", body, options);
+  }
+
+  // Helper method to accept the NextFetchRequestConfig that used to be the
+  // third argument of post, put, patch and delete
+  private normalizeOptions(
+    options?: RequestOptions | NextFetchRequestConfig,
+  ): RequestOptions {
+    if (!options) {
+      return {};
+    }
+
+    if ("revalidate" in options || "tags" in options || "cache" in options) {
+      return { next: options as NextFetchRequestConfig };
+    }
+
+    return options as RequestOptions;
   }
 
   private async sendRequest<T = any, D = any>(
     endpoint: string,
     method: string,
     body?: D,
-    nextOptions?: NextFetchRequestConfig,
+    rawOptions?: RequestOptions | NextFetchRequestConfig,
   ): Promise<LaravelResponse<T>> {
+    const options = this.normalizeOptions(rawOptions);
     const url = new URL(endpoint, this.baseUrl);
-    const headers: Record<string, string> = {};
+    const headers = new Headers(options.headers || {});
     let processedBody: BodyInit | null = null;
+    let payload: unknown = body;
+
+    // Objects holding files can only be sent as multipart
+    const formDataMode = options.formData ?? "auto";
+    if (
+      this.isPlainObject(payload) &&
+      (formDataMode === true ||
+        (formDataMode === "auto" && containsFiles(payload)))
+    ) {
+      payload = toFormData(payload);
+    }
+
+    if (
+      payload instanceof FormData &&
+      ["PUT", "PATCH", "DELETE"].includes(method) &&
+      options.spoofMethod !== false
+    ) {
+      // Copy, so the caller's FormData doesn't get a _method field
+      const spoofed = new FormData();
+      payload.forEach((value, key) => spoofed.append(key, value));
+      spoofed.append("_method", method);
 
-    if (body !== undefined && body !== null) {
+      payload = spoofed;
+      method = "POST";
+    }
+
+    if (payload !== undefined && payload !== null) {
       // Handle different body types
-      if (body instanceof FormData) {
+      if (payload instanceof FormData) {
         // FormData is already ready to use
-        processedBody = body;
-      } else if (typeof body === "string") {
+        processedBody = payload;
+      } else if (typeof payload === "string") {
         // If it's a string, use it directly
-        processedBody = body;
-        headers["Content-Type"] = "text/plain";
-      } else if (body instanceof Blob || body instanceof ArrayBuffer) {
+        processedBody = payload;
+        if (!headers.has("Content-Type")) {
+          headers.set("Content-Type", "text/plain");
+        }
+      } else if (payload instanceof Blob || payload instanceof ArrayBuffer) {
         // Handle Blob or ArrayBuffer
-        processedBody = body;
-      } else if (typeof body === "object") {
+        processedBody = payload;
+      } else if (typeof payload === "object") {
         // Convert objects to JSON
-        processedBody = JSON.stringify(body);
-        headers["Content-Type"] = "application/json";
+        processedBody = JSON.stringify(payload);
+        headers.set("Content-Type", "application/json");
       }
     }
 
@@ -236,67 +1234,173 @@ class Laravel {
       method,
       headers,
       body: processedBody,
+      signal: options.signal,
     };
 
     // Add Next.js fetch options if provided
-    if (nextOptions) {
+    if (options.next) {
       // @ts-ignore - Next.js specific property
-      requestOptions.next = nextOptions;
+      requestOptions.next = options.next;
     }
 
-    const response = await this.request<T>(url.toString(), requestOptions);
+    const response = await this.request<T>(url.toString(), requestOptions, {
+      timeout: options.timeout,
+      onUploadProgress: options.onUploadProgress,
+      onDownloadProgress: options.onDownloadProgress,
+      responseType: options.responseType,
+      unwrap: options.unwrap,
+    });
 
-    const setCookieHeaders = response.request?.headers?.getSetCookie?.();
-    if (setCookieHeaders && setCookieHeaders.length > 0) {
-      this.cookies = setCookieHeaders.join("; ");
+    // Mutations declaring tags invalidate the responses cached with them
+    if (response.success && options.next?.tags) {
+      this.cache.invalidate(options.next.tags);
     }
 
     return response;
   }
 
-  withCookies(cookies?: string | null) {
-    if (cookies) {
-      this.cookies = cookies;
-    } else {
-      this.cookies = null;
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return (
+      !!value &&
+      typeof value === "object" &&
+      Object.getPrototypeOf(value) === Object.prototype
+    );
+  }
+
+  // Helper method to keep the cookies Laravel sets on scoped clients
+  private storeCookies(response: LaravelResponse) {
+    if (
+      !this.scopedState ||
+      this.mode === "token" ||
+      typeof window !== "undefined"
+    ) {
+      return;
+    }
+
+    const setCookieHeaders: string[] =
+      response.request?.headers?.getSetCookie?.() || [];
+    if (setCookieHeaders.length > 0) {
+      this.cookies = mergeCookies(
+        this.cookies,
+        parseSetCookie(setCookieHeaders),
+      );
     }
-    return this;
   }
 
-  withCSRFToken(token: string) {
-    this.csrfToken = token;
-    return this;
+  // Helper method to copy this client, so per-request state never leaks
+  // into the instance it was derived from
+  private derive(configure?: (client: this) => void): this {
+    const client: this = Object.assign(
+      Object.create(Object.getPrototypeOf(this)),
+      this,
+    );
+
+    client.requestInterceptors = [...this.requestInterceptors];
+    client.responseInterceptors = [...this.responseInterceptors];
+    client.errorInterceptors = [...this.errorInterceptors];
+    client.pendingCsrfRefresh = null;
+
+    configure?.(client);
+
+    return client;
+  }
+
+  // Independent copy of this client that keeps the cookies Laravel sets
+  fork(): this {
+    return this.derive((client) => {
+      client.scopedState = true;
+      client.tokenRefreshes = new Map();
+    });
+  }
+
+  // Run a callback against a fork, e.g. for the lifetime of a server request
+  scoped<R>(callback: (client: this) => R): R {
+    return callback(this.fork());
+  }
+
+  withCookies(cookies?: string | null): this {
+    return this.derive((client) => {
+      client.cookies = cookies || null;
+    });
+  }
+
+  withCSRFToken(token: string): this {
+    return this.derive((client) => {
+      client.csrfToken = token;
+    });
   }
 
   async csrf<T = any>(): Promise<LaravelResponse<T>> {
     return await this.get<T>("/sanctum/csrf-cookie");
   }
 
-  withToken(token?: string | null) {
-    this.bearerToken = token || null;
-    return this;
+  // Authorizer for Laravel Echo's `authorizer` option, so private and
+  // presence channels use the same cookies, CSRF token and bearer token
+  broadcastingAuthorizer(
+    options: BroadcastingAuthorizerOptions = {},
+  ): ChannelAuthorizer {
+    const endpoint = options.endpoint || "/broadcasting/auth";
+
+    return (channel) => ({
+      authorize: (socketId, callback) => {
+        this.post<ChannelAuthorizationData>(
+          endpoint,
+          { socket_id: socketId, channel_name: channel.name },
+          { headers: options.headers },
+        )
+          .then((response) =>
+            response.error
+              ? callback(response.error, null)
+              : callback(null, response.data),
+          )
+          .catch((error) => callback(error, null));
+      },
+    });
+  }
+
+  withToken(token?: string | null): this {
+    return this.derive((client) => {
+      client.bearerToken = token || null;
+    });
   }
 
   getUri(path: unknown = "") {
     return new URL(String(path), this.baseUrl).toString();
   }
 
-  login<T = any>(email: string, password: string): Promise<LaravelResponse<T>> {
-    return this.post<T>("/api/login", {
-      email: email,
-      password: password,
+  // Helper method to resolve an auth endpoint with the configured prefix
+  private endpoint(
+    name: keyof AuthEndpoints,
+    replacements: Record<string, string> = {},
+  ): string {
+    const path = Object.entries(replacements).reduce(
+      (result, [key, value]) =>
+        result.replace(`{${key}}`, encodeURIComponent(value)),
+      this.endpoints[name],
+    );
+
+    return /^https?:\/\//.test(path) ? path : `${this.prefix}${path}`;
+  }
+
+  login<T = any>(
+    username: string,
+    password: string,
+  ): Promise<LaravelResponse<T>> {
+    return this.post<T>(this.endpoint("login"), {
+      [this.fields.username]: username,
+      [this.fields.password]: password,
     });
   }
 
   register<T = any>(data: any): Promise<LaravelResponse<T>> {
-    return this.post<T>("/api/register", data);
+    return this.post<T>(this.endpoint("register"), data);
   }
 
   sendVerificationNotification<T = any>(
     email: string,
   ): Promise<LaravelResponse<T>> {
-    return this.post<T>("/api/email/verification-notification", {
-      email,
+    return this.post<T>(this.endpoint("sendVerificationNotification"), {
+      [this.fields.email]: email,
     });
   }
 
@@ -308,14 +1412,14 @@ class Laravel {
       signature: string;
     },
   ): Promise<LaravelResponse<T>> {
-    return this.get<T>(`/api/verify-email/${userId}/${hash}`, {
+    return this.get<T>(this.endpoint("verifyEmail", { id: userId, hash }), {
       params: query,
     });
   }
 
   forgotPassword<T = any>(email: string): Promise<LaravelResponse<T>> {
-    return this.post<T>("/api/forgot-password", {
-      email,
+    return this.post<T>(this.endpoint("forgotPassword"), {
+      [this.fields.email]: email,
     });
   }
 
@@ -325,7 +1429,15 @@ class Laravel {
     password: string;
     password_confirmation: string;
   }): Promise<LaravelResponse<T>> {
-    return this.post<T>("/api/reset-password", data);
+    const { email, password, password_confirmation, ...rest } = data;
+
+    return this.post<T>(this.endpoint("resetPassword"), {
+      ...rest,
+      [this.fields.email]: email,
+      [this.fields.password]: password,
+      // Laravel's `confirmed` rule looks for <field>_confirmation
+      [`${this.fields.password}_confirmation`]: password_confirmation,
+    });
   }
 
   updatePassword<T = any>(data: {
@@ -333,15 +1445,225 @@ class Laravel {
     new_password: string;
     new_password_confirmation: string;
   }): Promise<LaravelResponse<T>> {
-    return this.put<T>("/api/user/update-password", data);
+    return this.put<T>(this.endpoint("updatePassword"), data);
   }
 
   updateAccount<T = any>(
     data: Record<string, unknown>,
   ): Promise<LaravelResponse<T>> {
-    return this.put<T>("/api/user", data);
+    return this.put<T>(this.endpoint("updateAccount"), data);
+  }
+
+  logout<T = any>(): Promise<LaravelResponse<T>> {
+    return this.post<T>(this.endpoint("logout"));
+  }
+
+  user<T = any>(): Promise<LaravelResponse<T>> {
+    return this.get<T>(this.endpoint("user"));
+  }
+
+  // Fortify responds with two_factor: true when the user still has to pass
+  // the two factor challenge before being logged in
+  requiresTwoFactor(response: LaravelResponse): boolean {
+    return response.success && response.data?.two_factor === true;
+  }
+
+  confirmPassword<T = any>(password: string): Promise<LaravelResponse<T>> {
+    return this.post<T>(this.endpoint("confirmPassword"), {
+      [this.fields.password]: password,
+    });
+  }
+
+  confirmedPasswordStatus<T = { confirmed: boolean }>(): Promise<
+    LaravelResponse<T>
+  > {
+    return this.get<T>(this.endpoint("confirmedPasswordStatus"));
+  }
+
+  twoFactorChallenge<T = any>(
+    data: { code: string } | { recovery_code: string },
+  ): Promise<LaravelResponse<T>> {
+    return this.post<T>(this.endpoint("twoFactorChallenge"), data);
+  }
+
+  enableTwoFactor<T = any>(): Promise<LaravelResponse<T>> {
+    return this.post<T>(this.endpoint("twoFactorAuthentication"));
+  }
+
+  disableTwoFactor<T = any>(): Promise<LaravelResponse<T>> {
+    return this.delete<T>(this.endpoint("twoFactorAuthentication"));
+  }
+
+  confirmTwoFactor<T = any>(code: string): Promise<LaravelResponse<T>> {
+    return this.post<T>(this.endpoint("confirmTwoFactor"), { code });
+  }
+
+  twoFactorQrCode<T = { svg: string; url: string }>(): Promise<
+    LaravelResponse<T>
+  > {
+    return this.get<T>(this.endpoint("twoFactorQrCode"));
+  }
+
+  twoFactorRecoveryCodes<T = string[]>(): Promise<LaravelResponse<T>> {
+    return this.get<T>(this.endpoint("twoFactorRecoveryCodes"));
+  }
+
+  regenerateTwoFactorRecoveryCodes<T = any>(): Promise<LaravelResponse<T>> {
+    return this.post<T>(this.endpoint("twoFactorRecoveryCodes"));
+  }
+
+  // Issue a Sanctum personal access token, stored in the token store if set
+  async issueToken<T = any>(
+    username: string,
+    password: string,
+    deviceName: string,
+    abilities?: string[],
+  ): Promise<LaravelResponse<T>> {
+    const response = await this.post<T>(this.endpoint("issueToken"), {
+      [this.fields.username]: username,
+      [this.fields.password]: password,
+      device_name: deviceName,
+      abilities,
+    });
+
+    if (response.success && this.tokenStore) {
+      const { token, expiresAt } = this.extractToken(response.data);
+      if (token) {
+        this.tokenStore.set(token, expiresAt);
+      }
+    }
+
+    return response;
+  }
+
+  // Helper method to read the token from the common response shapes: the
+  // plainTextToken string itself, { token, expires_at } or a NewAccessToken
+  private extractToken(data: any): {
+    token: string | null;
+    expiresAt: string | null;
+  } {
+    if (typeof data === "string") {
+      return { token: data, expiresAt: null };
+    }
+
+    return {
+      token: data?.token ?? data?.plainTextToken ?? data?.access_token ?? null,
+      expiresAt: data?.expires_at ?? data?.accessToken?.expires_at ?? null,
+    };
+  }
+
+  tokens<T = any>(): Promise<LaravelResponse<T>> {
+    return this.get<T>(this.endpoint("tokens"));
+  }
+
+  revokeToken<T = any>(id: string | number): Promise<LaravelResponse<T>> {
+    return this.delete<T>(
+      `${this.endpoint("tokens")}/${encodeURIComponent(String(id))}`,
+    );
   }
 }
 
 export default Laravel;
-export { validation_messages } from "./validation-messages";
+export type {
+  ErrorInterceptor,
+  GetOptions,
+  LaravelRequest,
+  LaravelResponse,
+  NextFetchRequestConfig,
+  RequestInterceptor,
+  RequestOptions,
+  ResponseInterceptor,
+  ResponseType,
+} from "./types";
+export {
+  LaravelError,
+  HttpError,
+  ValidationError,
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  CsrfMismatchError,
+  ThrottledError,
+  MaintenanceModeError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+} from "./errors";
+export type { LaravelTraceFrame } from "./errors";
+export { ErrorBag } from "./error-bag";
+export type { RetryPolicy } from "./retry";
+export { defaultEndpoints, defaultFields } from "./options";
+export {
+  CookieTokenStore,
+  LocalStorageTokenStore,
+  MemoryTokenStore,
+  TokenStore,
+} from "./token-store";
+export type { CookieTokenStoreOptions, StoredToken } from "./token-store";
+export type {
+  AuthEndpoints,
+  AuthFields,
+  LaravelOptions,
+  TokenRefresher,
+} from "./options";
+export type { ProgressCallback, TransferProgress } from "./progress";
+export { Page, normalizePageMeta } from "./pagination";
+export { unwrapResource } from "./resources";
+export { ResourceClient } from "./resource-client";
+export type { ResourceClientOptions, ResourceKey } from "./resource-client";
+export type {
+  Resource,
+  ResourceCollection,
+  ResourceLinks,
+  ResourceMeta,
+} from "./resources";
+export type {
+  CursorPaginator,
+  LengthAwarePaginator,
+  PageMeta,
+  PaginateOptions,
+  Paginated,
+  PaginatedResource,
+  PaginationLink,
+  SimplePaginator,
+} from "./pagination";
+export { containsFiles, toFormData } from "./form-data";
+export { parseContentDisposition } from "./download";
+export type { DownloadedFile } from "./download";
+export type {
+  AuthorizableChannel,
+  BroadcastingAuthorizerOptions,
+  ChannelAuthorizationCallback,
+  ChannelAuthorizationData,
+  ChannelAuthorizer,
+} from "./broadcasting";
+export { parseNdjson, parseServerSentEvents } from "./streaming";
+export type { ServerSentEvent, StreamOptions } from "./streaming";
+export { ResponseCache } from "./cache";
+export type { RequestCacheOptions, ResponseCacheOptions } from "./cache";
+export { QueryBuilder } from "./query-builder";
+export type { QueryBuilderOptions, SortField } from "./query-builder";
+export { serializeQuery, toQueryString } from "./query-string";
+export type { QueryStringOptions } from "./query-string";
+export type { ErrorBagOptions, ValidationErrors } from "./error-bag";
+export {
+  availableLocales,
+  configuredDefaultLocale,
+  extendLocale,
+  getDefaultLocale,
+  registerLocale,
+  setDefaultLocale,
+  setFallbackLocale,
+  translateValidationMessage,
+  validation_messages,
+  validationAttributes,
+  validationMessages,
+} from "./validation-messages";
+export type {
+  MessageType,
+  ValidationLanguageOverrides,
+  ValidationLanguagePack,
+  ValidationMessage,
+  ValidationMessages,
+} from "./validation-messages";
@@ -0,0 +1,104 @@
+import type { ResponseCacheOptions } from "./cache";
+import type { QueryStringOptions } from "./query-string";
+import type { RetryPolicy } from "./retry";
+import type Laravel from "./index";
+
+export interface AuthEndpoints {
+  login: string;
+  logout: string;
+  register: string;
+  user: string;
+  updateAccount: string;
+  updatePassword: string;
+  sendVerificationNotification: string;
+  // {id} and {hash} are replaced with the values from the signed URL
+  verifyEmail: string;
+  forgotPassword: string;
+  resetPassword: string;
+  confirmPassword: string;
+  confirmedPasswordStatus: string;
+  twoFactorChallenge: string;
+  twoFactorAuthentication: string;
+  confirmTwoFactor: string;
+  twoFactorQrCode: string;
+  twoFactorRecoveryCodes: string;
+  // Route that returns $user->createToken(...)->plainTextToken
+  issueToken: string;
+  // Lists the user's tokens, {id} is appended to revoke one
+  tokens: string;
+}
+
+export interface AuthFields {
+  // Field used to log in, like the `username` option in config/fortify.php
+  username: string;
+  // Field used for password resets and verification, like `email` in config/fortify.php
+  email: string;
+  password: string;
+}
+
+// Receives a client without the refresher, so its own requests can't
+// trigger another refresh. Resolve to the new token, or null on failure.
+export type TokenRefresher = (
+  client: Laravel,
+) => Promise<string | null> | string | null;
+
+export interface LaravelOptions {
+  baseUrl?: string;
+  // "spa" uses Sanctum's cookie based authentication with CSRF protection,
+  // "token" only sends the bearer token
+  mode?: "spa" | "token";
+  // Origin header, defaults to NEXT_PUBLIC_DOMAIN when process.env exists
+  origin?: string | null;
+  credentials?: RequestCredentials;
+  defaultHeaders?: HeadersInit;
+  // Custom fetch implementation, e.g. for testing or instrumentation
+  fetch?: typeof fetch;
+  // Default timeout in milliseconds
+  timeout?: number;
+  retry?: RetryPolicy | false;
+  throwOnError?: boolean;
+  csrfRefresh?: boolean;
+  // Called on 401 responses to obtain a new access token
+  refreshToken?: TokenRefresher;
+  queryString?: QueryStringOptions;
+  // Unwrap JsonResource envelopes, exposing meta and links separately
+  unwrap?: boolean;
+  // Sent as Accept-Language and used for validation messages
+  locale?: string;
+  // Share the response of identical GET requests that are in flight
+  dedupe?: boolean;
+  // Defaults for the in-memory response cache of GET requests
+  cache?: ResponseCacheOptions;
+  // Prepended to every auth endpoint, e.g. "/api/v2" or "" for Fortify defaults
+  prefix?: string;
+  endpoints?: Partial<AuthEndpoints>;
+  fields?: Partial<AuthFields>;
+}
+
+export const defaultEndpoints: AuthEndpoints = {
+  login: "/login",
+  logout: "/logout",
+  register: "/register",
+  user: "/user",
+  updateAccount: "/user",
+  updatePassword: "/user/update-password",
+  sendVerificationNotification: "/email/verification-notification",
+  verifyEmail: "/verify-email/{id}/{hash}",
+  forgotPassword: "/forgot-password",
+  resetPassword: "/reset-password",
+  confirmPassword: "/user/confirm-password",
+  confirmedPasswordStatus: "/user/confirmed-password-status",
+  twoFactorChallenge: "/two-factor-challenge",
+  twoFactorAuthentication: "/user/two-factor-authentication",
+  confirmTwoFactor: "/user/confirmed-two-factor-authentication",
+  twoFactorQrCode: "/user/two-factor-qr-code",
+  twoFactorRecoveryCodes: "/user/two-factor-recovery-codes",
+  issueToken: "/sanctum/token",
+  tokens: "/user/tokens",
+};
+
+export const defaultFields: AuthFields = {
+  username: "email",
+  email: "email",
+  password: "password",
+};
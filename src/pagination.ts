@@ -0,0 +1,195 @@
+import type { GetOptions, LaravelResponse } from "./types";
+
+export interface PaginationLink {
+  url: string | null;
+  label: string;
+  active: boolean;
+}
+
+// $query->paginate()
+export interface LengthAwarePaginator<T> {
+  data: T[];
+  current_page: number;
+  last_page: number;
+  per_page: number;
+  total: number;
+  from: number | null;
+  to: number | null;
+  path: string;
+  first_page_url: string;
+  last_page_url: string;
+  next_page_url: string | null;
+  prev_page_url: string | null;
+  links: PaginationLink[];
+}
+
+// $query->simplePaginate()
+export interface SimplePaginator<T> {
+  data: T[];
+  current_page: number;
+  per_page: number;
+  from: number | null;
+  to: number | null;
+  path: string;
+  first_page_url: string;
+  next_page_url: string | null;
+  prev_page_url: string | null;
+}
+
+// $query->cursorPaginate()
+export interface CursorPaginator<T> {
+  data: T[];
+  per_page: number;
+  path: string;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+  next_page_url: string | null;
+  prev_page_url: string | null;
+}
+
+// Any of the paginators above wrapped in an API resource collection
+export interface PaginatedResource<T> {
+  data: T[];
+  links: {
+    first: string | null;
+    last: string | null;
+    prev: string | null;
+    next: string | null;
+  };
+  meta: {
+    current_page?: number;
+    last_page?: number;
+    per_page: number;
+    total?: number;
+    from?: number | null;
+    to?: number | null;
+    path: string;
+    next_cursor?: string | null;
+    prev_cursor?: string | null;
+    links?: PaginationLink[];
+  };
+}
+
+export type Paginated<T> =
+  | LengthAwarePaginator<T>
+  | SimplePaginator<T>
+  | CursorPaginator<T>
+  | PaginatedResource<T>;
+
+export interface PageMeta {
+  currentPage: number | null;
+  lastPage: number | null;
+  perPage: number | null;
+  total: number | null;
+  from: number | null;
+  to: number | null;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  cursor: boolean;
+}
+
+export interface PaginateOptions extends Omit<GetOptions, "params"> {
+  // Query parameter names, matching $pageName and $cursorName in Laravel
+  pageName?: string;
+  cursorName?: string;
+}
+
+// Helper function to read the meta of every paginator flavour the same way
+export const normalizePageMeta = (payload: any): PageMeta => {
+  const source = payload && payload.meta ? payload.meta : payload || {};
+  const links = payload && payload.meta ? payload.links || {} : {};
+  const number = (value: unknown) => (typeof value === "number" ? value : null);
+
+  const cursor = "next_cursor" in source || "prev_cursor" in source;
+  const currentPage = number(source.current_page);
+  const lastPage = number(source.last_page);
+  const nextUrl = source.next_page_url ?? links.next ?? null;
+  const prevUrl = source.prev_page_url ?? links.prev ?? null;
+
+  return {
+    currentPage,
+    lastPage,
+    perPage: number(source.per_page),
+    total: number(source.total),
+    from: number(source.from),
+    to: number(source.to),
+    nextCursor: source.next_cursor ?? null,
+    prevCursor: source.prev_cursor ?? null,
+    hasNextPage: cursor
+      ? source.next_cursor != null
+      : currentPage !== null && lastPage !== null
+        ? currentPage < lastPage
+        : nextUrl !== null,
+    hasPrevPage: cursor
+      ? source.prev_cursor != null
+      : currentPage !== null
+        ? currentPage > 1
+        : prevUrl !== null,
+    cursor,
+  };
+};
+
+export class Page<T> {
+  readonly data: T[];
+  readonly meta: PageMeta;
+
+  constructor(
+    readonly response: LaravelResponse<Paginated<T>>,
+    private readonly params: Record<string, unknown>,
+    private readonly options: PaginateOptions,
+    private readonly fetchPage: (
+      params: Record<string, unknown>,
+    ) => Promise<Page<T>>,
+  ) {
+    this.data = response.data?.data || [];
+    this.meta = normalizePageMeta(response.data);
+  }
+
+  hasNext(): boolean {
+    return this.meta.hasNextPage;
+  }
+
+  hasPrev(): boolean {
+    return this.meta.hasPrevPage;
+  }
+
+  async next(): Promise<Page<T> | null> {
+    if (!this.hasNext()) {
+      return null;
+    }
+
+    return this.meta.cursor
+      ? this.withCursor(this.meta.nextCursor)
+      : this.goTo((this.meta.currentPage || 1) + 1);
+  }
+
+  async prev(): Promise<Page<T> | null> {
+    if (!this.hasPrev()) {
+      return null;
+    }
+
+    return this.meta.cursor
+      ? this.withCursor(this.meta.prevCursor)
+      : this.goTo((this.meta.currentPage || 2) - 1);
+  }
+
+  async goTo(page: number): Promise<Page<T>> {
+    if (this.meta.cursor) {
+      throw new Error("Cursor paginators can not jump to a page number");
+    }
+
+    return this.fetchPage({
+      ...this.params,
+      [this.options.pageName || "page"]: page,
+    });
+  }
+
+  private withCursor(cursor: string | null): Promise<Page<T>> {
+    return this.fetchPage({
+      ...this.params,
+      [this.options.cursorName || "cursor"]: cursor,
+    });
+  }
+}
@@ -0,0 +1,161 @@
+export interface TransferProgress {
+  loaded: number;
+  total: number | null;
+  percentage: number | null;
+}
+
+export type ProgressCallback = (progress: TransferProgress) => void;
+
+const progress = (loaded: number, total: number | null): TransferProgress => ({
+  loaded,
+  total,
+  percentage: total ? Math.min(100, Math.round((loaded / total) * 100)) : null,
+});
+
+// Helper function to count the bytes flowing through a stream
+const countingStream = (
+  total: number | null,
+  callback: ProgressCallback,
+): TransformStream<Uint8Array, Uint8Array> => {
+  let loaded = 0;
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      callback(progress(loaded, total));
+      controller.enqueue(chunk);
+    },
+  });
+};
+
+export const isUploadBody = (body: unknown): boolean =>
+  (typeof FormData !== "undefined" && body instanceof FormData) ||
+  (typeof Blob !== "undefined" && body instanceof Blob) ||
+  body instanceof ArrayBuffer;
+
+export const canUseXhr = (): boolean => typeof XMLHttpRequest !== "undefined";
+
+// Null body statuses can not be passed to the Response constructor with a body
+const nullBodyStatuses = [101, 204, 205, 304];
+
+const parseXhrHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const index = line.indexOf(":");
+      if (index > 0) {
+        headers.append(
+          line.slice(0, index).trim(),
+          line.slice(index + 1).trim(),
+        );
+      }
+    });
+
+  return headers;
+};
+
+// fetch has no upload progress in browsers, so fall back to XMLHttpRequest
+export const xhrFetch = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress?: ProgressCallback,
+  onDownloadProgress?: ProgressCallback,
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const signal = init.signal;
+
+    xhr.open(init.method || "GET", url);
+    xhr.responseType = "blob";
+    xhr.withCredentials = init.credentials === "include";
+
+    new Headers(init.headers).forEach((value, key) => {
+      // The browser manages these itself and refuses to set them
+      if (key !== "cookie" && key !== "origin") {
+        xhr.setRequestHeader(key, value);
+      }
+    });
+
+    if (onUploadProgress) {
+      xhr.upload.onprogress = (event) =>
+        onUploadProgress(
+          progress(event.loaded, event.lengthComputable ? event.total : null),
+        );
+    }
+
+    if (onDownloadProgress) {
+      xhr.onprogress = (event) =>
+        onDownloadProgress(
+          progress(event.loaded, event.lengthComputable ? event.total : null),
+        );
+    }
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener("abort", abort);
+
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", abort);
+      resolve(
+        new Response(
+          nullBodyStatuses.includes(xhr.status) ? null : xhr.response,
+          {
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+          },
+        ),
+      );
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener("abort", abort);
+      reject(new TypeError("Network request failed"));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener("abort", abort);
+      reject(signal?.reason || new Error("Request aborted"));
+    };
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+
+// Streamed request bodies are sent chunked without a Content-Length, which
+// `php artisan serve` doesn't accept, so fetch uploads only report completion
+// once the response arrives. FormData has no size until fetch encodes it.
+export const uploadComplete = (body: unknown): TransferProgress => {
+  const size =
+    typeof Blob !== "undefined" && body instanceof Blob
+      ? body.size
+      : body instanceof ArrayBuffer
+        ? body.byteLength
+        : null;
+
+  return {
+    loaded: size ?? 0,
+    total: size,
+    percentage: size === null ? null : 100,
+  };
+};
+
+// Report progress while the response body is being read
+export const trackDownload = (
+  response: Response,
+  callback: ProgressCallback,
+): Response => {
+  if (!response.body) {
+    return response;
+  }
+
+  const length = Number(response.headers.get("content-length"));
+  const body = response.body.pipeThrough(
+    countingStream(length > 0 ? length : null, callback),
+  );
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
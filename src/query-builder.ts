@@ -0,0 +1,174 @@
+import type Laravel from "./index";
+import type { Page, PaginateOptions } from "./pagination";
+import { toQueryString } from "./query-string";
+import type { GetOptions, LaravelResponse } from "./types";
+
+type Field<T> = Extract<keyof T, string>;
+
+export type SortField<T> = Field<T> | `-${Field<T>}`;
+
+export interface QueryBuilderOptions {
+  // Parameter names, like the `parameters` array in config/query-builder.php
+  parameters?: {
+    filter?: string;
+    sort?: string;
+    include?: string;
+    fields?: string;
+    append?: string;
+  };
+  pageName?: string;
+  perPageName?: string;
+}
+
+// Helper function to encode filter values the way spatie/laravel-query-builder
+// reads them: arrays as comma separated lists, booleans as true/false
+const filterValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(filterValue).join(",");
+  }
+
+  if (typeof value === "boolean") {
+    return value ? "true" : "false";
+  }
+
+  return value;
+};
+
+// Fluent builder for spatie/laravel-query-builder endpoints
+export class QueryBuilder<T = any> {
+  private filters: Record<string, unknown> = {};
+  private sorts: string[] = [];
+  private includes: string[] = [];
+  private fieldsets: Record<string, string[]> = {};
+  private appends: string[] = [];
+  private extra: Record<string, unknown> = {};
+  private pageNumber?: number;
+  private pageSize?: number;
+
+  constructor(
+    private readonly client: Laravel,
+    private readonly endpoint: string,
+    private readonly options: QueryBuilderOptions = {},
+  ) {}
+
+  // filter[status]=active, or filter({ status: "active", id: [1, 2] })
+  filter(
+    filters: Partial<Record<Field<T>, unknown>> & Record<string, unknown>,
+  ): this;
+  filter(name: Field<T> | (string & {}), value: unknown): this;
+  filter(
+    nameOrFilters: string | Record<string, unknown>,
+    value?: unknown,
+  ): this {
+    const filters =
+      typeof nameOrFilters === "string"
+        ? { [nameOrFilters]: value }
+        : nameOrFilters;
+
+    Object.entries(filters).forEach(([name, filter]) => {
+      this.filters[name] = filterValue(filter);
+    });
+
+    return this;
+  }
+
+  // sort=-created_at,name
+  sort(...fields: (SortField<T> | (string & {}))[]): this {
+    this.sorts.push(...fields);
+    return this;
+  }
+
+  // include=posts,roles
+  include(...relations: string[]): this {
+    this.includes.push(...relations);
+    return this;
+  }
+
+  // fields[users]=id,name
+  fields(type: string, columns: (Field<T> | (string & {}))[]): this {
+    this.fieldsets[type] = columns;
+    return this;
+  }
+
+  // append=full_name
+  append(...attributes: string[]): this {
+    this.appends.push(...attributes);
+    return this;
+  }
+
+  page(page: number): this {
+    this.pageNumber = page;
+    return this;
+  }
+
+  perPage(perPage: number): this {
+    this.pageSize = perPage;
+    return this;
+  }
+
+  // Any other query parameter
+  where(key: string, value: unknown): this {
+    this.extra[key] = value;
+    return this;
+  }
+
+  toParams(): Record<string, unknown> {
+    const parameters = this.options.parameters || {};
+    const params: Record<string, unknown> = { ...this.extra };
+
+    if (Object.keys(this.filters).length > 0) {
+      params[parameters.filter || "filter"] = { ...this.filters };
+    }
+    if (this.sorts.length > 0) {
+      params[parameters.sort || "sort"] = this.sorts.join(",");
+    }
+    if (this.includes.length > 0) {
+      params[parameters.include || "include"] = this.includes.join(",");
+    }
+    if (Object.keys(this.fieldsets).length > 0) {
+      const fields: Record<string, string> = {};
+      Object.entries(this.fieldsets).forEach(([type, columns]) => {
+        fields[type] = columns.join(",");
+      });
+      params[parameters.fields || "fields"] = fields;
+    }
+    if (this.appends.length > 0) {
+      params[parameters.append || "append"] = this.appends.join(",");
+    }
+    if (this.pageNumber !== undefined) {
+      params[this.options.pageName || "page"] = this.pageNumber;
+    }
+    if (this.pageSize !== undefined) {
+      params[this.options.perPageName || "per_page"] = this.pageSize;
+    }
+
+    return params;
+  }
+
+  toQueryString(): string {
+    return toQueryString(this.toParams());
+  }
+
+  get<R = T[]>(
+    options?: Omit<GetOptions, "params">,
+  ): Promise<LaravelResponse<R>> {
+    return this.client.get<R>(this.endpoint, {
+      ...options,
+      params: this.toParams(),
+    });
+  }
+
+  paginate(options?: PaginateOptions): Promise<Page<T>> {
+    return this.client.paginate<T>(this.endpoint, this.toParams(), {
+      pageName: this.options.pageName,
+      ...options,
+    });
+  }
+
+  each(options?: PaginateOptions): AsyncGenerator<T> {
+    return this.client.each<T>(this.endpoint, this.toParams(), {
+      pageName: this.options.pageName,
+      ...options,
+    });
+  }
+}
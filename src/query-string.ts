@@ -0,0 +1,72 @@
+export interface QueryStringOptions {
+  // Laravel's `boolean` rule accepts 1/0 but not "true"/"false"
+  booleans?: "numeric" | "string";
+}
+
+const encodeBoolean = (value: boolean, options: QueryStringOptions) => {
+  if (options.booleans === "string") {
+    return value ? "true" : "false";
+  }
+  return value ? "1" : "0";
+};
+
+const isNested = (value: unknown): boolean =>
+  Array.isArray(value) ||
+  (!!value && typeof value === "object" && !(value instanceof Date));
+
+const serialize = (
+  key: string,
+  value: unknown,
+  options: QueryStringOptions,
+  pairs: [string, string][],
+) => {
+  if (value === undefined) {
+    return;
+  }
+
+  if (value === null) {
+    // ConvertEmptyStringsToNull turns this back into null on the server
+    pairs.push([key, ""]);
+  } else if (typeof value === "boolean") {
+    pairs.push([key, encodeBoolean(value, options)]);
+  } else if (value instanceof Date) {
+    pairs.push([key, value.toISOString()]);
+  } else if (Array.isArray(value)) {
+    // ids[]=1&ids[]=2, but items[0][name]=... when items are nested
+    value.forEach((item, index) =>
+      serialize(
+        isNested(item) ? `${key}[${index}]` : `${key}[]`,
+        item,
+        options,
+        pairs,
+      ),
+    );
+  } else if (typeof value === "object") {
+    Object.entries(value as Record<string, unknown>).forEach(
+      ([nestedKey, nested]) =>
+        serialize(`${key}[${nestedKey}]`, nested, options, pairs),
+    );
+  } else {
+    pairs.push([key, String(value)]);
+  }
+};
+
+// Flattens params into key/value pairs the way PHP parses query strings,
+// e.g. { filter: { status: "active" } } becomes filter[status]=active
+export const serializeQuery = (
+  params: Record<string, unknown>,
+  options: QueryStringOptions = {},
+): [string, string][] => {
+  const pairs: [string, string][] = [];
+
+  Object.keys(params).forEach((key) =>
+    serialize(key, params[key], options, pairs),
+  );
+
+  return pairs;
+};
+
+export const toQueryString = (
+  params: Record<string, unknown>,
+  options: QueryStringOptions = {},
+): string => new URLSearchParams(serializeQuery(params, options)).toString();
@@ -0,0 +1,144 @@
+import type Laravel from "./index";
+import type { Page, PaginateOptions } from "./pagination";
+import type { GetOptions, LaravelResponse, RequestOptions } from "./types";
+
+export type ResourceKey = string | number;
+
+export interface ResourceClientOptions {
+  // Route::apiResource(...)->shallow(): members are addressed without parents
+  shallow?: boolean;
+  // Unwrap JsonResource envelopes, defaults to the client setting
+  unwrap?: boolean;
+  // Soft delete routes relative to the member URL
+  restore?: { method?: "POST" | "PUT" | "PATCH"; path?: string };
+  forceDelete?: { method?: "DELETE" | "POST"; path?: string };
+}
+
+export class ResourceClient<T = any> {
+  constructor(
+    private readonly client: Laravel,
+    // URL of the collection, e.g. /api/posts/1/comments
+    private readonly collection: string,
+    // URL members are addressed from, e.g. /api/comments when shallow
+    private readonly members: string,
+    private readonly root: string,
+    private readonly options: ResourceClientOptions = {},
+  ) {}
+
+  // GET /posts
+  index<R = T[]>(
+    params?: Record<string, unknown>,
+    options?: Omit<GetOptions, "params">,
+  ): Promise<LaravelResponse<R>> {
+    return this.client.get<R>(
+      this.collection,
+      this.withUnwrap({ ...options, params }),
+    );
+  }
+
+  // GET /posts with a paginator response
+  paginate(
+    params?: Record<string, unknown>,
+    options?: PaginateOptions,
+  ): Promise<Page<T>> {
+    return this.client.paginate<T>(this.collection, params, options);
+  }
+
+  // GET /posts/{post}
+  show(id: ResourceKey, options?: GetOptions): Promise<LaravelResponse<T>> {
+    return this.client.get<T>(this.member(id), this.withUnwrap(options));
+  }
+
+  // POST /posts
+  store<D = Partial<T>>(
+    data: D,
+    options?: RequestOptions,
+  ): Promise<LaravelResponse<T>> {
+    return this.client.post<T, D>(
+      this.collection,
+      data,
+      this.withUnwrap(options),
+    );
+  }
+
+  // PUT /posts/{post}
+  update<D = Partial<T>>(
+    id: ResourceKey,
+    data: D,
+    options?: RequestOptions,
+  ): Promise<LaravelResponse<T>> {
+    return this.client.put<T, D>(
+      this.member(id),
+      data,
+      this.withUnwrap(options),
+    );
+  }
+
+  // DELETE /posts/{post}
+  destroy<R = any>(
+    id: ResourceKey,
+    options?: RequestOptions,
+  ): Promise<LaravelResponse<R>> {
+    return this.client.delete<R>(this.member(id), undefined, options);
+  }
+
+  // POST /posts/{post}/restore by default
+  restore(
+    id: ResourceKey,
+    options?: RequestOptions,
+  ): Promise<LaravelResponse<T>> {
+    const { method = "POST", path = "restore" } = this.options.restore || {};
+    const url = `${this.member(id)}/${path}`;
+    const requestOptions = this.withUnwrap(options);
+
+    if (method === "PUT") {
+      return this.client.put<T>(url, undefined, requestOptions);
+    }
+    if (method === "PATCH") {
+      return this.client.patch<T>(url, undefined, requestOptions);
+    }
+    return this.client.post<T>(url, undefined, requestOptions);
+  }
+
+  // DELETE /posts/{post}/force by default
+  forceDelete<R = any>(
+    id: ResourceKey,
+    options?: RequestOptions,
+  ): Promise<LaravelResponse<R>> {
+    const { method = "DELETE", path = "force" } =
+      this.options.forceDelete || {};
+    const url = `${this.member(id)}/${path}`;
+
+    return method === "POST"
+      ? this.client.post<R>(url, undefined, options)
+      : this.client.delete<R>(url, undefined, options);
+  }
+
+  // Route::apiResource('posts.comments', ...)
+  nested<C = any>(
+    id: ResourceKey,
+    name: string,
+    options: ResourceClientOptions = this.options,
+  ): ResourceClient<C> {
+    const collection = `${this.member(id)}/${name}`;
+
+    return new ResourceClient<C>(
+      this.client,
+      collection,
+      options.shallow ? `${this.root}/${name}` : collection,
+      this.root,
+      options,
+    );
+  }
+
+  member(id: ResourceKey): string {
+    return `${this.members}/${encodeURIComponent(String(id))}`;
+  }
+
+  private withUnwrap<O extends RequestOptions>(options?: O): O {
+    return {
+      ...options,
+      unwrap: options?.unwrap ?? this.options.unwrap,
+    } as O;
+  }
+}
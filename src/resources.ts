@@ -0,0 +1,62 @@
+import type { PaginationLink } from "./pagination";
+import type { LaravelResponse } from "./types";
+
+export interface ResourceLinks {
+  first?: string | null;
+  last?: string | null;
+  prev?: string | null;
+  next?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ResourceMeta {
+  current_page?: number;
+  last_page?: number;
+  per_page?: number;
+  total?: number;
+  from?: number | null;
+  to?: number | null;
+  path?: string;
+  links?: PaginationLink[];
+  [key: string]: unknown;
+}
+
+// return new UserResource($user), optionally with ->additional([...])
+export type Resource<T, A extends Record<string, unknown> = {}> = {
+  data: T;
+} & A;
+
+// return UserResource::collection($users)
+export interface ResourceCollection<T> {
+  data: T[];
+  links?: ResourceLinks;
+  meta?: ResourceMeta;
+}
+
+// Helper function to move a JsonResource envelope out of the way, leaving
+// responses of resources that use withoutWrapping() untouched. Always returns
+// a copy, the response may be shared or cached
+export const unwrapResource = <T>(
+  response: LaravelResponse,
+): LaravelResponse<T> => {
+  const body = response.data;
+
+  if (
+    !body ||
+    typeof body !== "object" ||
+    Array.isArray(body) ||
+    !("data" in body)
+  ) {
+    return { ...response };
+  }
+
+  const { data, meta, links, ...additional } = body;
+
+  return {
+    ...response,
+    data,
+    meta,
+    links,
+    additional: Object.keys(additional).length > 0 ? additional : undefined,
+  };
+};
@@ -0,0 +1,126 @@
+import { NetworkError, parseRetryAfter } from "./errors";
+import type { LaravelRequest, LaravelResponse } from "./types";
+
+export interface RetryPolicy {
+  // Maximum number of attempts, including the first one
+  attempts?: number;
+  // Base delay in milliseconds for the exponential backoff
+  baseDelay?: number;
+  // Upper bound in milliseconds for a single backoff delay
+  maxDelay?: number;
+  // Randomize delays so clients don't retry in lockstep
+  jitter?: boolean;
+  // Give up when the server asks us to wait longer than this (milliseconds)
+  maxRetryAfter?: number;
+  // Status codes that are worth another attempt
+  statuses?: number[];
+  // Methods that are safe to replay
+  methods?: string[];
+  // Also retry POST and other non-idempotent methods
+  retryNonIdempotent?: boolean;
+}
+
+const defaultRetryPolicy: Required<RetryPolicy> = {
+  attempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  maxRetryAfter: 60000,
+  statuses: [429, 502, 503, 504],
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  retryNonIdempotent: false,
+};
+
+export const resolveRetryPolicy = (
+  policy: RetryPolicy,
+): Required<RetryPolicy> => ({
+  ...defaultRetryPolicy,
+  ...policy,
+  methods: (policy.methods || defaultRetryPolicy.methods).map((method) =>
+    method.toUpperCase(),
+  ),
+});
+
+// Helper function to check whether a request may be replayed safely
+const canReplay = (
+  policy: Required<RetryPolicy>,
+  request: LaravelRequest,
+): boolean => {
+  const method = (request.init.method || "GET").toUpperCase();
+
+  return (
+    policy.methods.includes(method) ||
+    policy.retryNonIdempotent ||
+    request.init.headers.has("Idempotency-Key")
+  );
+};
+
+export const shouldRetry = (
+  policy: Required<RetryPolicy>,
+  request: LaravelRequest,
+  response: LaravelResponse,
+): boolean => {
+  if (response.error instanceof NetworkError) {
+    return canReplay(policy, request);
+  }
+
+  // A 429 may also come from a RateLimiter inside the controller, so
+  // throttled requests follow the same rules as any other status
+  return (
+    policy.statuses.includes(response.status) && canReplay(policy, request)
+  );
+};
+
+// Helper function to read how long Laravel's throttle middleware wants us to wait
+const throttleDelay = (response: LaravelResponse): number | null => {
+  const retryAfter = parseRetryAfter(response.headers["retry-after"]);
+  if (retryAfter !== null) {
+    return retryAfter * 1000;
+  }
+
+  const remaining = response.headers["x-ratelimit-remaining"];
+  const reset = Number(response.headers["x-ratelimit-reset"]);
+  if (remaining === "0" && !Number.isNaN(reset)) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  return null;
+};
+
+// Returns the delay before the next attempt in milliseconds, or null to give up
+export const retryDelay = (
+  policy: Required<RetryPolicy>,
+  attempt: number,
+  response: LaravelResponse,
+): number | null => {
+  if (response.status === 429 || response.status === 503) {
+    const delay = throttleDelay(response);
+    if (delay !== null) {
+      return delay > policy.maxRetryAfter ? null : delay;
+    }
+  }
+
+  const backoff = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(2, attempt - 1),
+  );
+
+  return policy.jitter ? Math.round(Math.random() * backoff) : backoff;
+};
+
+// Waits for the given delay, resolving early when the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      return resolve();
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+
+    signal?.addEventListener("abort", done);
+  });
@@ -0,0 +1,151 @@
+import type { GetOptions } from "./types";
+
+export interface ServerSentEvent<T = any> {
+  event: string;
+  data: T;
+  id: string | null;
+  retry: number | null;
+}
+
+export interface StreamOptions extends Omit<GetOptions, "responseType"> {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  // Server-Sent Events (response()->eventStream()) or newline delimited JSON
+  format?: "sse" | "ndjson";
+  // Parse event data as JSON when possible
+  json?: boolean;
+  // Reconnect with Last-Event-ID when the connection drops (SSE only)
+  reconnect?: boolean;
+  maxReconnects?: number;
+  // Milliseconds to wait before reconnecting, until the server sends retry:
+  retryDelay?: number;
+  // Data of the event that ends the stream, Laravel's eventStream() default
+  endMarker?: string | null;
+}
+
+// Helper function to read a byte stream line by line, handling \r\n, \r and \n
+async function* readLines(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => reader.cancel().catch(() => undefined);
+  let buffer = "";
+  let finished = false;
+
+  signal?.addEventListener("abort", cancel);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      // Hold back a trailing \r, it may be the first half of \r\n
+      const pending = !done && buffer.endsWith("\r");
+      const lines = (pending ? buffer.slice(0, -1) : buffer).split(
+        /\r\n|\r|\n/,
+      );
+      buffer = (done ? "" : lines.pop() || "") + (pending ? "\r" : "");
+
+      for (const line of done ? lines.filter((l) => l !== "") : lines) {
+        yield line;
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+
+    // The consumer stopped early, close the connection
+    if (!finished) {
+      await cancel();
+    }
+
+    reader.releaseLock();
+  }
+}
+
+const parseData = (data: string, json: boolean) => {
+  if (!json) {
+    return data;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    return data;
+  }
+};
+
+export async function* parseServerSentEvents<T = any>(
+  stream: ReadableStream<Uint8Array>,
+  json: boolean = true,
+  signal?: AbortSignal,
+): AsyncGenerator<ServerSentEvent<T>> {
+  let event = "";
+  let data: string[] = [];
+  let id: string | null = null;
+  let retry: number | null = null;
+
+  for await (const line of readLines(stream, signal)) {
+    if (line === "") {
+      if (data.length > 0) {
+        yield {
+          event: event || "message",
+          data: parseData(data.join("\n"), json),
+          id,
+          retry,
+        };
+      }
+
+      event = "";
+      data = [];
+      retry = null;
+      continue;
+    }
+
+    // Lines starting with a colon are comments, used as keep-alive
+    if (line.startsWith(":")) {
+      continue;
+    }
+
+    const index = line.indexOf(":");
+    const field = index === -1 ? line : line.slice(0, index);
+    let value = index === -1 ? "" : line.slice(index + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        event = value;
+        break;
+      case "data":
+        data.push(value);
+        break;
+      case "id":
+        id = value;
+        break;
+      case "retry":
+        retry = /^\d+$/.test(value) ? Number(value) : retry;
+        break;
+    }
+  }
+}
+
+export async function* parseNdjson<T = any>(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<T> {
+  for await (const line of readLines(stream, signal)) {
+    if (line.trim() !== "") {
+      yield JSON.parse(line);
+    }
+  }
+}
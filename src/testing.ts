@@ -0,0 +1,419 @@
+// Test helpers, imported from "@blueflamingos/laravel-client/testing" so they
+// stay out of production bundles
+import Laravel from "./index";
+import type { LaravelOptions } from "./options";
+import type { LengthAwarePaginator, PaginationLink } from "./pagination";
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  // Parsed JSON, FormData or the raw body
+  body: any;
+}
+
+export type RequestMatcher =
+  string | RegExp | ((request: RecordedRequest) => boolean);
+
+export type MockReply =
+  Response | [status: number, data?: unknown, headers?: Record<string, string>];
+
+export type MockReplyCallback = (
+  request: RecordedRequest,
+) => MaybePromise<MockReply>;
+
+export interface PaginatorOptions {
+  page?: number;
+  perPage?: number;
+  path?: string;
+  pageName?: string;
+}
+
+// Laravel's Str::is(), where * matches anything
+const matchesPattern = (pattern: string, value: string): boolean => {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${escaped}$`).test(value);
+};
+
+const matches = (matcher: RequestMatcher, request: RecordedRequest) => {
+  if (typeof matcher === "function") {
+    return matcher(request);
+  }
+
+  const search = request.query.toString();
+  const candidates = [
+    request.url,
+    request.path,
+    search ? `${request.path}?${search}` : request.path,
+  ];
+
+  return candidates.some((candidate) =>
+    typeof matcher === "string"
+      ? matchesPattern(matcher, candidate)
+      : matcher.test(candidate),
+  );
+};
+
+// Helper function to build a Response the way Laravel would send it
+const toResponse = (reply: MockReply): Response => {
+  if (reply instanceof Response) {
+    return reply;
+  }
+
+  const [status, data, headers = {}] = reply;
+  const responseHeaders = new Headers(headers);
+  let body: BodyInit | null = null;
+
+  if (typeof data === "string") {
+    body = data;
+    if (!responseHeaders.has("Content-Type")) {
+      responseHeaders.set("Content-Type", "text/html; charset=UTF-8");
+    }
+  } else if (data instanceof Blob || data instanceof ArrayBuffer) {
+    body = data;
+  } else if (data !== undefined) {
+    body = JSON.stringify(data);
+    if (!responseHeaders.has("Content-Type")) {
+      responseHeaders.set("Content-Type", "application/json");
+    }
+  }
+
+  return new Response(body, { status, headers: responseHeaders });
+};
+
+const parseBody = (body: RequestInit["body"]): any => {
+  if (typeof body !== "string") {
+    return body ?? null;
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    return body;
+  }
+};
+
+// A $query->paginate() response for one page of the items
+export const paginator = <T>(
+  items: T[],
+  options: PaginatorOptions = {},
+): LengthAwarePaginator<T> => {
+  const perPage = options.perPage ?? 15;
+  const page = options.page ?? 1;
+  const path = options.path ?? "http://localhost";
+  const pageName = options.pageName ?? "page";
+  const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+  const data = items.slice((page - 1) * perPage, page * perPage);
+  const from = data.length ? (page - 1) * perPage + 1 : null;
+  const url = (target: number) =>
+    target >= 1 && target <= lastPage ? `${path}?${pageName}=${target}` : null;
+
+  const links: PaginationLink[] = [
+    { url: url(page - 1), label: "&laquo; Previous", active: false },
+    ...Array.from({ length: lastPage }, (_, index) => ({
+      url: url(index + 1),
+      label: String(index + 1),
+      active: index + 1 === page,
+    })),
+    { url: url(page + 1), label: "Next &raquo;", active: false },
+  ];
+
+  return {
+    data,
+    current_page: page,
+    last_page: lastPage,
+    per_page: perPage,
+    total: items.length,
+    from,
+    to: from === null ? null : from + data.length - 1,
+    path,
+    first_page_url: url(1) as string,
+    last_page_url: url(lastPage) as string,
+    next_page_url: url(page + 1),
+    prev_page_url: url(page - 1),
+    links,
+  };
+};
+
+// The 422 response Laravel sends when validation fails
+export const validationErrors = (
+  errors: Record<string, string[]>,
+  message?: string,
+) => {
+  const messages = Object.values(errors).reduce<string[]>(
+    (all, field) => all.concat(field),
+    [],
+  );
+  const more = messages.length - 1;
+
+  return {
+    message:
+      message ??
+      (more > 0
+        ? `${messages[0]} (and ${more} more ${more === 1 ? "error" : "errors"})`
+        : messages[0] || "The given data was invalid."),
+    errors,
+  };
+};
+
+export class MockRoute {
+  private replies: { reply: MockReplyCallback; once: boolean }[] = [];
+
+  constructor(
+    private readonly transport: MockTransport,
+    readonly method: string | null,
+    readonly matcher: RequestMatcher,
+  ) {}
+
+  matches(request: RecordedRequest): boolean {
+    return (
+      this.replies.length > 0 &&
+      (!this.method || this.method === request.method) &&
+      matches(this.matcher, request)
+    );
+  }
+
+  // Helper method to take the next reply, one-time replies first
+  take(): MockReplyCallback {
+    const index = this.replies.findIndex((reply) => reply.once);
+
+    if (index !== -1) {
+      return this.replies.splice(index, 1)[0].reply;
+    }
+
+    return this.replies[this.replies.length - 1].reply;
+  }
+
+  reply(callback: MockReplyCallback): MockTransport;
+  reply(
+    status: number,
+    data?: unknown,
+    headers?: Record<string, string>,
+  ): MockTransport;
+  reply(
+    statusOrCallback: number | MockReplyCallback,
+    data?: unknown,
+    headers?: Record<string, string>,
+  ): MockTransport {
+    return this.add(statusOrCallback, data, headers, false);
+  }
+
+  replyOnce(callback: MockReplyCallback): MockTransport;
+  replyOnce(
+    status: number,
+    data?: unknown,
+    headers?: Record<string, string>,
+  ): MockTransport;
+  replyOnce(
+    statusOrCallback: number | MockReplyCallback,
+    data?: unknown,
+    headers?: Record<string, string>,
+  ): MockTransport {
+    return this.add(statusOrCallback, data, headers, true);
+  }
+
+  // A failed validation, e.g. reply422({ email: ["The email field is required."] })
+  reply422(errors: Record<string, string[]>, message?: string): MockTransport {
+    return this.reply(422, validationErrors(errors, message));
+  }
+
+  // Pages through the items using the page query parameter
+  replyPaginated<T>(
+    items: T[],
+    options: Omit<PaginatorOptions, "page" | "path"> = {},
+  ): MockTransport {
+    return this.reply((request) => [
+      200,
+      paginator(items, {
+        ...options,
+        page: Number(request.query.get(options.pageName ?? "page")) || 1,
+        path: request.url.split("?")[0],
+      }),
+    ]);
+  }
+
+  // Fail like fetch does when the server can't be reached
+  networkError(): MockTransport {
+    return this.reply(() => {
+      throw new TypeError("Failed to fetch");
+    });
+  }
+
+  // Never respond, so the request times out or is aborted
+  timeout(): MockTransport {
+    return this.reply(() => new Promise<never>(() => {}));
+  }
+
+  private add(
+    statusOrCallback: number | MockReplyCallback,
+    data: unknown,
+    headers: Record<string, string> | undefined,
+    once: boolean,
+  ): MockTransport {
+    const reply: MockReplyCallback =
+      typeof statusOrCallback === "function"
+        ? statusOrCallback
+        : () => [statusOrCallback, data, headers];
+
+    this.replies.push({ reply, once });
+
+    return this.transport;
+  }
+}
+
+// Fake fetch for tests, in the spirit of Laravel's Http::fake()
+export class MockTransport {
+  readonly history: RecordedRequest[] = [];
+  private routes: MockRoute[] = [];
+
+  // Pass as the `fetch` option, or use client()
+  readonly fetch: typeof fetch = async (input, init = {}) => {
+    const href =
+      typeof input === "string"
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url;
+    const url = new URL(href, "http://localhost");
+    const recorded: RecordedRequest = {
+      method: (
+        init.method || (input instanceof Request ? input.method : "GET")
+      ).toUpperCase(),
+      url: url.href,
+      path: url.pathname,
+      query: url.searchParams,
+      headers: new Headers(init.headers),
+      body: parseBody(init.body),
+    };
+
+    this.history.push(recorded);
+
+    // Later routes win, so tests can override shared defaults
+    const route = [...this.routes]
+      .reverse()
+      .find((candidate) => candidate.matches(recorded));
+
+    if (!route) {
+      throw new TypeError(`No mock matches ${recorded.method} ${recorded.url}`);
+    }
+
+    const reply = route.take()(recorded);
+    const signal = init.signal;
+
+    if (!signal) {
+      return toResponse(await reply);
+    }
+
+    // Settle with the abort reason, like fetch does
+    return new Promise<Response>((resolve, reject) => {
+      const abort = () => reject(signal.reason);
+
+      if (signal.aborted) {
+        return abort();
+      }
+
+      signal.addEventListener("abort", abort, { once: true });
+      Promise.resolve(reply)
+        .then(toResponse)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", abort));
+    });
+  };
+
+  // Client using this transport, in token mode against http://localhost
+  client(options: LaravelOptions = {}): Laravel {
+    return new Laravel({
+      baseUrl: "http://localhost",
+      mode: "token",
+      ...options,
+      fetch: this.fetch,
+    });
+  }
+
+  on(method: string | null, matcher: RequestMatcher): MockRoute {
+    const route = new MockRoute(this, method?.toUpperCase() ?? null, matcher);
+    this.routes.push(route);
+    return route;
+  }
+
+  onAny(matcher: RequestMatcher = "*"): MockRoute {
+    return this.on(null, matcher);
+  }
+
+  onGet(matcher: RequestMatcher): MockRoute {
+    return this.on("GET", matcher);
+  }
+
+  onPost(matcher: RequestMatcher): MockRoute {
+    return this.on("POST", matcher);
+  }
+
+  onPut(matcher: RequestMatcher): MockRoute {
+    return this.on("PUT", matcher);
+  }
+
+  onPatch(matcher: RequestMatcher): MockRoute {
+    return this.on("PATCH", matcher);
+  }
+
+  onDelete(matcher: RequestMatcher): MockRoute {
+    return this.on("DELETE", matcher);
+  }
+
+  // Requests matching a path pattern or callback
+  sent(matcher: RequestMatcher = "*"): RecordedRequest[] {
+    return this.history.filter((request) => matches(matcher, request));
+  }
+
+  assertSent(matcher: RequestMatcher) {
+    if (this.sent(matcher).length === 0) {
+      throw new Error(
+        `An expected request was not sent: ${this.describe(matcher)}`,
+      );
+    }
+  }
+
+  assertNotSent(matcher: RequestMatcher) {
+    if (this.sent(matcher).length > 0) {
+      throw new Error(
+        `An unexpected request was sent: ${this.describe(matcher)}`,
+      );
+    }
+  }
+
+  assertNothingSent() {
+    if (this.history.length > 0) {
+      throw new Error(
+        `Requests were sent unexpectedly: ${this.history
+          .map((request) => `${request.method} ${request.url}`)
+          .join(", ")}`,
+      );
+    }
+  }
+
+  assertSentCount(count: number) {
+    if (this.history.length !== count) {
+      throw new Error(
+        `Expected ${count} requests to be sent, ${this.history.length} were sent`,
+      );
+    }
+  }
+
+  // Forget the recorded requests and routes
+  reset() {
+    this.history.length = 0;
+    this.routes = [];
+  }
+
+  private describe(matcher: RequestMatcher): string {
+    return typeof matcher === "function" ? "[callback]" : String(matcher);
+  }
+}
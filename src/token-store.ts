@@ -0,0 +1,168 @@
+export interface StoredToken {
+  token: string;
+  // Expiry as a unix timestamp in milliseconds, null when it never expires
+  expiresAt: number | null;
+}
+
+// Base class for token stores, extend it to persist tokens elsewhere
+export abstract class TokenStore {
+  protected abstract read(): StoredToken | null;
+  protected abstract write(token: StoredToken | null): void;
+
+  get(): StoredToken | null {
+    const token = this.read();
+
+    if (token && this.isExpired(token)) {
+      this.clear();
+      return null;
+    }
+
+    return token;
+  }
+
+  set(token: string, expiresAt?: string | number | Date | null) {
+    let timestamp: number | null = null;
+
+    if (expiresAt instanceof Date) {
+      timestamp = expiresAt.getTime();
+    } else if (typeof expiresAt === "string") {
+      timestamp = Date.parse(expiresAt);
+    } else if (typeof expiresAt === "number") {
+      timestamp = expiresAt;
+    }
+
+    this.write({
+      token,
+      expiresAt:
+        timestamp === null || Number.isNaN(timestamp) ? null : timestamp,
+    });
+  }
+
+  clear() {
+    this.write(null);
+  }
+
+  isExpired(token: StoredToken | null = this.read()): boolean {
+    return !!token && token.expiresAt !== null && token.expiresAt <= Date.now();
+  }
+
+  // Resolver for Laravel.setTokenResolver()
+  resolver(): () => string | null {
+    return () => this.get()?.token ?? null;
+  }
+}
+
+export class MemoryTokenStore extends TokenStore {
+  private token: StoredToken | null = null;
+
+  protected read() {
+    return this.token;
+  }
+
+  protected write(token: StoredToken | null) {
+    this.token = token;
+  }
+}
+
+export class LocalStorageTokenStore extends TokenStore {
+  constructor(private readonly key: string = "laravel_token") {
+    super();
+  }
+
+  protected read(): StoredToken | null {
+    if (typeof localStorage === "undefined") {
+      return null;
+    }
+
+    try {
+      const value = localStorage.getItem(this.key);
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  protected write(token: StoredToken | null) {
+    if (typeof localStorage === "undefined") {
+      return;
+    }
+
+    if (token) {
+      localStorage.setItem(this.key, JSON.stringify(token));
+    } else {
+      localStorage.removeItem(this.key);
+    }
+  }
+}
+
+export interface CookieTokenStoreOptions {
+  name?: string;
+  path?: string;
+  domain?: string;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+export class CookieTokenStore extends TokenStore {
+  private readonly options: CookieTokenStoreOptions;
+
+  constructor(options: CookieTokenStoreOptions = {}) {
+    super();
+    this.options = {
+      name: "laravel_token",
+      path: "/",
+      sameSite: "Lax",
+      ...options,
+    };
+  }
+
+  protected read(): StoredToken | null {
+    if (typeof document === "undefined") {
+      return null;
+    }
+
+    const match = document.cookie
+      .split("; ")
+      .find((row) => row.startsWith(`${this.options.name}=`));
+
+    try {
+      return match
+        ? JSON.parse(decodeURIComponent(match.slice(match.indexOf("=") + 1)))
+        : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  protected write(token: StoredToken | null) {
+    if (typeof document === "undefined") {
+      return;
+    }
+
+    const { name, path, domain, secure, sameSite } = this.options;
+    const attributes = [`path=${path}`, `SameSite=${sameSite}`];
+
+    if (domain) {
+      attributes.push(`domain=${domain}`);
+    }
+    if (secure) {
+      attributes.push("secure");
+    }
+
+    if (token) {
+      if (token.expiresAt !== null) {
+        attributes.push(`expires=${new Date(token.expiresAt).toUTCString()}`);
+      }
+      document.cookie = [
+        `${name}=${encodeURIComponent(JSON.stringify(token))}`,
+        ...attributes,
+      ].join("; ");
+    } else {
+      document.cookie = [
+        `${name}=`,
+        "expires=Thu, 01 Jan 1970 00:00:00 GMT",
+        ...attributes,
+      ].join("; ");
+    }
+  }
+}
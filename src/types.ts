@@ -0,0 +1,79 @@
+import type { RequestCacheOptions } from "./cache";
+import type { LaravelError } from "./errors";
+import type { ProgressCallback } from "./progress";
+
+export interface LaravelResponse<T = any> {
+  data: T;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  config: RequestInit;
+  request?: any;
+  success: boolean;
+  error?: LaravelError;
+  // Set when an API resource envelope was unwrapped
+  meta?: Record<string, any>;
+  links?: Record<string, any>;
+  additional?: Record<string, any>;
+}
+
+export interface NextFetchRequestConfig {
+  revalidate?: number | false;
+  tags?: string[];
+  cache?: "force-cache" | "no-store";
+}
+
+export interface RequestOptions {
+  next?: NextFetchRequestConfig;
+  headers?: HeadersInit;
+  signal?: AbortSignal;
+  // Timeout in milliseconds, overrides the client default
+  timeout?: number;
+  // Upload progress for FormData and Blob bodies
+  onUploadProgress?: ProgressCallback;
+  onDownloadProgress?: ProgressCallback;
+  // Send PUT, PATCH and DELETE requests with a FormData body as POST with a
+  // _method field, because PHP only parses multipart bodies on POST
+  spoofMethod?: boolean;
+  // Convert object bodies to FormData: always, never, or when they hold files
+  formData?: boolean | "auto";
+  // How to read the response body, detected from the Content-Type by default
+  responseType?: ResponseType;
+  // Unwrap JsonResource envelopes, overrides the client default
+  unwrap?: boolean;
+}
+
+export type ResponseType = "json" | "text" | "blob" | "arrayBuffer" | "stream";
+
+export interface GetOptions extends RequestOptions {
+  params?: Record<string, unknown> | string;
+  // Cache the response in memory, or false to skip the client cache
+  cache?: RequestCacheOptions | false;
+}
+
+export interface LaravelRequest {
+  url: string;
+  init: RequestInit & { headers: Headers };
+  timeout?: number;
+  onUploadProgress?: ProgressCallback;
+  onDownloadProgress?: ProgressCallback;
+  responseType?: ResponseType;
+  unwrap?: boolean;
+  cache?: RequestCacheOptions | false;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+export type RequestInterceptor = (
+  request: LaravelRequest,
+) => MaybePromise<LaravelRequest | LaravelResponse | void>;
+
+export type ResponseInterceptor = (
+  response: LaravelResponse,
+  request: LaravelRequest,
+) => MaybePromise<LaravelResponse | void>;
+
+export type ErrorInterceptor = (
+  error: LaravelError,
+  request: LaravelRequest,
+) => MaybePromise<LaravelResponse | void>;